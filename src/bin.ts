@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+import { ExitCode, runCli } from './cli';
+
+runCli(process.argv.slice(2)).then(
+    (code) => {
+        process.exitCode = code;
+    },
+    (error) => {
+        process.stderr.write(`${error instanceof Error ? (error.stack ?? error.message) : String(error)}\n`);
+        process.exitCode = ExitCode.InternalError;
+    }
+);
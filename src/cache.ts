@@ -0,0 +1,248 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { InvalidConfigError } from './errors';
+import {
+    CacheEntry,
+    CacheStore,
+    MachineFingerprint,
+    UsageEvent,
+    UsageStore,
+    ValidationApiResponse,
+    ValidationResult,
+} from './types';
+
+type SerializedCacheEntry = {
+    timestamp: number;
+    response?: ValidationApiResponse;
+    fingerprint?: MachineFingerprint;
+    clockOffset?: number;
+    lastSeenAt?: number;
+    result: Omit<ValidationResult, 'expiresAt' | 'lastCheckedAt' | 'error'> & {
+        expiresAt?: string | null;
+        lastCheckedAt?: string | null;
+    };
+};
+
+const toDate = (value?: string | null): Date | null | undefined => (value ? new Date(value) : (value as null | undefined));
+
+export function serializeCacheEntry(entry: CacheEntry): string {
+    const { error, ...result } = entry.result;
+    return JSON.stringify({
+        timestamp: entry.timestamp,
+        result,
+        response: entry.response,
+        fingerprint: entry.fingerprint,
+        clockOffset: entry.clockOffset,
+        lastSeenAt: entry.lastSeenAt,
+    });
+}
+
+export function deserializeCacheEntry(raw: string): CacheEntry | null {
+    let parsed: SerializedCacheEntry;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+
+    if (!parsed || typeof parsed.timestamp !== 'number' || !parsed.result || typeof parsed.result !== 'object') {
+        return null;
+    }
+
+    return {
+        timestamp: parsed.timestamp,
+        response: parsed.response,
+        fingerprint: parsed.fingerprint,
+        clockOffset: parsed.clockOffset,
+        lastSeenAt: parsed.lastSeenAt,
+        result: {
+            ...parsed.result,
+            expiresAt: toDate(parsed.result.expiresAt),
+            lastCheckedAt: toDate(parsed.result.lastCheckedAt),
+        },
+    };
+}
+
+/**
+ * Writes a file through a temporary file renamed over the target, so readers never see a partial write.
+ */
+async function writeFileAtomically(directory: string, target: string, content: string): Promise<void> {
+    await fs.mkdir(directory, { recursive: true });
+
+    const tmp = `${target}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    try {
+        await fs.writeFile(tmp, content, { encoding: 'utf8', mode: 0o600 });
+        await fs.rename(tmp, target);
+    } catch (error) {
+        await fs.unlink(tmp).catch(() => undefined);
+        throw error;
+    }
+}
+
+async function readFileIfExists(file: string): Promise<string | null> {
+    try {
+        return await fs.readFile(file, 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Keeps cache entries in process memory. This is the default store and loses its state on restart.
+ */
+export class MemoryCacheStore implements CacheStore {
+    private entries = new Map<string, CacheEntry>();
+
+    public async get(key: string): Promise<CacheEntry | null> {
+        const entry = this.entries.get(key);
+        return entry ? { ...entry, result: { ...entry.result } } : null;
+    }
+
+    public async set(key: string, entry: CacheEntry): Promise<void> {
+        this.entries.set(key, { ...entry, result: { ...entry.result } });
+    }
+
+    public async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+}
+
+/**
+ * In-memory store holding at most `maxEntries` entries; the least recently used entry is evicted first.
+ */
+export class LruCacheStore implements CacheStore {
+    public readonly maxEntries: number;
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(maxEntries: number) {
+        if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+            throw new InvalidConfigError('maxEntries must be a positive integer');
+        }
+        this.maxEntries = maxEntries;
+    }
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    public async get(key: string): Promise<CacheEntry | null> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return null;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return { ...entry, result: { ...entry.result } };
+    }
+
+    public async set(key: string, entry: CacheEntry): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { ...entry, result: { ...entry.result } });
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    public async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+}
+
+/**
+ * Persists each cache entry as a JSON file inside a directory.
+ * Writes go to a temporary file which is then renamed over the target, so concurrent
+ * processes sharing the directory never observe a partially written entry.
+ */
+export class FileCacheStore implements CacheStore {
+    public readonly directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    public async get(key: string): Promise<CacheEntry | null> {
+        const raw = await readFileIfExists(this.filePath(key));
+        return raw === null ? null : deserializeCacheEntry(raw);
+    }
+
+    public async set(key: string, entry: CacheEntry): Promise<void> {
+        await writeFileAtomically(this.directory, this.filePath(key), serializeCacheEntry(entry));
+    }
+
+    public async delete(key: string): Promise<void> {
+        try {
+            await fs.unlink(this.filePath(key));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+    }
+
+    private filePath(key: string): string {
+        return path.join(this.directory, `${hashKey(key)}.json`);
+    }
+}
+
+/**
+ * Keeps unsent usage events in process memory. This is the default usage store.
+ */
+export class MemoryUsageStore implements UsageStore {
+    private queues = new Map<string, UsageEvent[]>();
+
+    public async get(key: string): Promise<UsageEvent[] | null> {
+        const events = this.queues.get(key);
+        return events ? [...events] : null;
+    }
+
+    public async set(key: string, events: UsageEvent[]): Promise<void> {
+        if (events.length > 0) {
+            this.queues.set(key, [...events]);
+        } else {
+            this.queues.delete(key);
+        }
+    }
+}
+
+/**
+ * Persists the unsent usage events of each license as a JSON file inside a directory, written like FileCacheStore.
+ * May share its directory with a FileCacheStore.
+ */
+export class FileUsageStore implements UsageStore {
+    public readonly directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    public async get(key: string): Promise<UsageEvent[] | null> {
+        const raw = await readFileIfExists(this.filePath(key));
+        if (raw === null) {
+            return null;
+        }
+
+        try {
+            const events = JSON.parse(raw);
+            return Array.isArray(events) ? events : null;
+        } catch {
+            return null;
+        }
+    }
+
+    public async set(key: string, events: UsageEvent[]): Promise<void> {
+        await writeFileAtomically(this.directory, this.filePath(key), JSON.stringify(events));
+    }
+
+    private filePath(key: string): string {
+        return path.join(this.directory, `${hashKey(key)}.usage.json`);
+    }
+}
@@ -0,0 +1,274 @@
+import { parseArgs } from 'util';
+import { LicenseAgent } from './index';
+import { CacheEntry, CacheStore, LicenseAgentConfig, ValidationResult } from './types';
+import { InvalidConfigError } from './errors';
+import { configFromEnv, loadConfigFile } from './config';
+import { DEFAULT_FINGERPRINT_TOLERANCE, generateFingerprint, reconcileFingerprint } from './fingerprint';
+
+/** Exit codes of `license-agent`. `validate` reports the license state through them. */
+export const ExitCode = {
+    Valid: 0,
+    Invalid: 1,
+    GracePeriod: 2,
+    NetworkError: 3,
+    UsageError: 64,
+    InternalError: 70,
+} as const;
+
+export interface CliIO {
+    stdout: { write(chunk: string): unknown };
+    stderr: { write(chunk: string): unknown };
+    env: NodeJS.ProcessEnv;
+}
+
+type CliConfig = Partial<LicenseAgentConfig>;
+
+const USAGE = `Usage: license-agent <command> [options]
+
+Commands:
+  validate        Validate the license against the server
+  inspect-cache   Show the persisted cache entry of the license
+  clear-cache     Delete the persisted cache entry and activation of the license
+  fingerprint     Show the machine fingerprint the agent sends
+
+Options:
+  --server-url <url>     LICENSE_AGENT_SERVER_URL, comma-separated for failover endpoints
+  --api-key <key>        LICENSE_AGENT_API_KEY
+  --license-key <key>    LICENSE_AGENT_LICENSE_KEY
+  --product <name>       LICENSE_AGENT_PRODUCT_NAME
+  --cache-dir <dir>      LICENSE_AGENT_CACHE_DIR, directory of a FileCacheStore
+  --timeout <ms>         LICENSE_AGENT_REQUEST_TIMEOUT
+  --config <file>        LICENSE_AGENT_CONFIG, JSON file with agent options (cacheDir for the cache directory)
+  --json                 Print machine-readable JSON
+  -h, --help             Show this help
+
+Flags take precedence over LICENSE_AGENT_* environment variables, which take precedence over the config file.
+validate exits with 0 (valid), 1 (invalid), 2 (grace period) or 3 (network error, no usable cache).`;
+
+const OPTIONS = {
+    'server-url': { type: 'string' },
+    'api-key': { type: 'string' },
+    'license-key': { type: 'string' },
+    product: { type: 'string' },
+    'cache-dir': { type: 'string' },
+    timeout: { type: 'string' },
+    config: { type: 'string' },
+    json: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+type Flags = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+class UsageError extends Error {}
+
+/**
+ * Runs the `license-agent` command line tool.
+ * @param argv Arguments without the node and script paths.
+ * @returns The process exit code.
+ */
+export async function runCli(
+    argv: string[],
+    io: CliIO = { stdout: process.stdout, stderr: process.stderr, env: process.env }
+): Promise<number> {
+    let command: string | undefined;
+    let flags: Flags;
+    try {
+        const parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+        flags = parsed.values;
+        command = parsed.positionals[0];
+    } catch (error) {
+        io.stderr.write(`${(error as Error).message}\n\n${USAGE}\n`);
+        return ExitCode.UsageError;
+    }
+
+    if (flags.help || !command) {
+        (flags.help ? io.stdout : io.stderr).write(`${USAGE}\n`);
+        return flags.help ? ExitCode.Valid : ExitCode.UsageError;
+    }
+
+    try {
+        const config = await loadConfig(flags, io.env);
+        switch (command) {
+            case 'validate':
+                return await validate(config, flags, io);
+            case 'inspect-cache':
+                return await inspectCache(config, flags, io);
+            case 'clear-cache':
+                return await clearCache(config, io);
+            case 'fingerprint':
+                return await fingerprint(config, flags, io);
+            default:
+                throw new UsageError(`Unknown command: ${command}`);
+        }
+    } catch (error) {
+        if (error instanceof UsageError || error instanceof InvalidConfigError) {
+            io.stderr.write(`${error.message}\n`);
+            return ExitCode.UsageError;
+        }
+        throw error;
+    }
+}
+
+async function loadConfig(flags: Flags, env: NodeJS.ProcessEnv): Promise<CliConfig> {
+    const configPath = flags.config ?? env.LICENSE_AGENT_CONFIG;
+    const fileConfig = configPath ? await loadConfigFile(configPath) : {};
+    // Flags are read exactly like the environment variables they override.
+    const flagConfig = configFromEnv({
+        LICENSE_AGENT_SERVER_URL: flags['server-url'],
+        LICENSE_AGENT_API_KEY: flags['api-key'],
+        LICENSE_AGENT_LICENSE_KEY: flags['license-key'],
+        LICENSE_AGENT_PRODUCT_NAME: flags.product,
+        LICENSE_AGENT_CACHE_DIR: flags['cache-dir'],
+        LICENSE_AGENT_REQUEST_TIMEOUT: flags.timeout,
+    });
+
+    return { ...fileConfig, ...configFromEnv(env), ...flagConfig };
+}
+
+function requireFields(config: CliConfig, fields: Array<keyof LicenseAgentConfig>): void {
+    const missing = fields.filter((field) => !config[field]);
+    if (missing.length > 0) {
+        throw new UsageError(`Missing required config: ${missing.join(', ')}`);
+    }
+}
+
+function requireCacheStore(config: CliConfig): CacheStore {
+    if (!config.cacheStore) {
+        throw new UsageError('A cache directory is required (--cache-dir, LICENSE_AGENT_CACHE_DIR or cacheDir)');
+    }
+    return config.cacheStore;
+}
+
+/** Keys under which LicenseAgent stores the result and the activation of a license. */
+function cacheKeys(config: CliConfig): { result: string; activation: string } {
+    const result = `${config.productName}:${config.licenseKey}`;
+    return { result, activation: `${result}:activation` };
+}
+
+const formatDate = (date?: Date | null) => (date ? date.toISOString() : '-');
+
+function describeError(error?: Error | null) {
+    return error ? { name: error.name, message: error.message } : null;
+}
+
+function exitCodeFor(result: ValidationResult): number {
+    if (result.isGracePeriod) {
+        return ExitCode.GracePeriod;
+    }
+    if (result.isValid) {
+        return ExitCode.Valid;
+    }
+    return result.isOffline ? ExitCode.NetworkError : ExitCode.Invalid;
+}
+
+async function validate(config: CliConfig, flags: Flags, io: CliIO): Promise<number> {
+    const agent = new LicenseAgent({ ...(config as LicenseAgentConfig), deactivateOnExit: false });
+
+    const result = await agent.validate();
+    const code = exitCodeFor(result);
+
+    if (flags.json) {
+        io.stdout.write(
+            `${JSON.stringify({ ...result, error: describeError(result.error), exitCode: code }, null, 2)}\n`
+        );
+        return code;
+    }
+
+    const state = result.isGracePeriod ? 'grace period' : result.isValid ? 'valid' : 'invalid';
+    const lines = [
+        `License:      ${state}${result.isOffline ? ' (offline)' : ''}`,
+        `Reason:       ${result.reason ?? '-'}`,
+        `Status:       ${result.status ?? '-'}`,
+        `Enforcement:  ${result.enforcement ?? '-'}`,
+        `Expires at:   ${formatDate(result.expiresAt)}`,
+        `Last checked: ${formatDate(result.lastCheckedAt)}`,
+    ];
+    if (result.endpoint) {
+        lines.push(`Endpoint:     ${result.endpoint}`);
+    }
+    if (result.error) {
+        lines.push(`Error:        ${result.error.name}: ${result.error.message}`);
+    }
+    io.stdout.write(`${lines.join('\n')}\n`);
+    return code;
+}
+
+async function inspectCache(config: CliConfig, flags: Flags, io: CliIO): Promise<number> {
+    requireFields(config, ['licenseKey', 'productName']);
+    const store = requireCacheStore(config);
+    const keys = cacheKeys(config);
+    const [entry, activation] = await Promise.all([store.get(keys.result), store.get(keys.activation)]);
+
+    if (flags.json) {
+        const describe = (cached: CacheEntry | null) =>
+            cached && { ...cached, result: { ...cached.result, error: describeError(cached.result.error) } };
+        io.stdout.write(`${JSON.stringify({ entry: describe(entry), activation: describe(activation) }, null, 2)}\n`);
+        return entry ? ExitCode.Valid : ExitCode.Invalid;
+    }
+
+    if (!entry) {
+        io.stdout.write(`No cached result for ${keys.result}\n`);
+    } else {
+        const age = Math.round((Date.now() - entry.timestamp) / 1000);
+        io.stdout.write(
+            [
+                `Cache key:    ${keys.result}`,
+                `Cached at:    ${new Date(entry.timestamp).toISOString()} (${age}s ago)`,
+                `Valid:        ${entry.result.isValid}`,
+                `Reason:       ${entry.result.reason ?? '-'}`,
+                `Status:       ${entry.result.status ?? '-'}`,
+                `Expires at:   ${formatDate(entry.result.expiresAt)}`,
+                `Signed:       ${entry.response?.signature ? 'yes' : 'no'}`,
+                `Fingerprint:  ${entry.fingerprint?.id ?? '-'}`,
+            ].join('\n') + '\n'
+        );
+    }
+    io.stdout.write(`Activation:   ${activation?.result.activationId ?? '-'}\n`);
+    return entry ? ExitCode.Valid : ExitCode.Invalid;
+}
+
+async function clearCache(config: CliConfig, io: CliIO): Promise<number> {
+    requireFields(config, ['licenseKey', 'productName']);
+    const store = requireCacheStore(config);
+    const keys = cacheKeys(config);
+
+    await Promise.all([store.delete(keys.result), store.delete(keys.activation)]);
+    io.stdout.write(`Cleared cache for ${keys.result}\n`);
+    return ExitCode.Valid;
+}
+
+async function fingerprint(config: CliConfig, flags: Flags, io: CliIO): Promise<number> {
+    if (config.fingerprint === false) {
+        throw new UsageError('Fingerprinting is disabled in the config');
+    }
+
+    // With a cache store the fresh fingerprint is reconciled with the stored one, as the agent does before sending it.
+    const reconciled = Boolean(config.cacheStore);
+    let result = await generateFingerprint(config.fingerprint);
+    if (reconciled) {
+        requireFields(config, ['licenseKey', 'productName']);
+        const stored = (await requireCacheStore(config).get(cacheKeys(config).result))?.fingerprint;
+        result = reconcileFingerprint(result, stored, config.fingerprint?.tolerance ?? DEFAULT_FINGERPRINT_TOLERANCE);
+    } else {
+        io.stderr.write(
+            'No cache directory configured: this id is not reconciled with the stored fingerprint and may differ ' +
+                'from the one the agent sends\n'
+        );
+    }
+
+    if (flags.json) {
+        io.stdout.write(`${JSON.stringify({ ...result, reconciled }, null, 2)}\n`);
+    } else {
+        const components = Object.entries(result.components).map(([name, hash]) => `  ${name}: ${hash}`);
+        io.stdout.write(
+            [
+                `Fingerprint:  ${result.id}`,
+                `Reconciled:   ${reconciled ? 'yes' : 'no'}`,
+                `Container:    ${result.container ?? 'none'}`,
+                'Components:',
+                ...components,
+            ].join('\n') + '\n'
+        );
+    }
+    return ExitCode.Valid;
+}
@@ -0,0 +1,297 @@
+import { promises as fs } from 'fs';
+import { LicenseAgentConfig } from './types';
+import { ConfigProblem, InvalidConfigError } from './errors';
+import { FileCacheStore, FileUsageStore } from './cache';
+import { validateEnforcementPolicy } from './policy';
+import { resolveRetryOptions } from './retry';
+import { DEFAULT_HEARTBEAT_INTERVAL, resolveRevalidationOptions } from './scheduler';
+import { resolveUsageOptions } from './usage';
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Environment variables read by `LicenseAgent.fromEnv()`, mapped to the config field they set.
+ * `LICENSE_AGENT_SERVER_URL` takes a comma-separated list for several endpoints, and `LICENSE_AGENT_CACHE_DIR`
+ * sets `cacheStore` and `usageStore` to a FileCacheStore and FileUsageStore in that directory.
+ */
+export const CONFIG_ENV_VARIABLES = {
+    LICENSE_AGENT_SERVER_URL: 'serverUrl',
+    LICENSE_AGENT_API_KEY: 'apiKey',
+    LICENSE_AGENT_LICENSE_KEY: 'licenseKey',
+    LICENSE_AGENT_PRODUCT_NAME: 'productName',
+    LICENSE_AGENT_CACHE_TTL: 'cacheTTL',
+    LICENSE_AGENT_GRACE_PERIOD: 'gracePeriod',
+    LICENSE_AGENT_REQUEST_TIMEOUT: 'requestTimeout',
+    LICENSE_AGENT_STALE_WHILE_REVALIDATE: 'staleWhileRevalidate',
+    LICENSE_AGENT_EXPIRING_SOON_WINDOW: 'expiringSoonWindow',
+    LICENSE_AGENT_CLOCK_ROLLBACK_TOLERANCE: 'clockRollbackTolerance',
+    LICENSE_AGENT_DEACTIVATE_ON_EXIT: 'deactivateOnExit',
+    LICENSE_AGENT_FINGERPRINT: 'fingerprint',
+    LICENSE_AGENT_PUBLIC_KEY: 'publicKey',
+    LICENSE_AGENT_CACHE_DIR: 'cacheStore',
+} as const;
+
+/** Config of a JSON file: serializable agent options, plus `cacheDir` for a FileCacheStore and FileUsageStore. */
+export type FileConfig = Partial<
+    Omit<LicenseAgentConfig, 'cacheStore' | 'usageStore' | 'transport' | 'clock' | 'publicKey' | 'fingerprint'>
+> & {
+    cacheDir?: string;
+    /** PEM public key. */
+    publicKey?: string;
+    fingerprint?: LicenseAgentConfig['fingerprint'];
+};
+
+const NUMBER_FIELDS = new Set<string>([
+    'cacheTTL',
+    'gracePeriod',
+    'requestTimeout',
+    'staleWhileRevalidate',
+    'expiringSoonWindow',
+    'clockRollbackTolerance',
+]);
+const BOOLEAN_FIELDS = new Set<string>(['deactivateOnExit', 'fingerprint']);
+
+function parseBoolean(value: string): boolean | string {
+    if (/^(true|1|yes)$/i.test(value)) {
+        return true;
+    }
+    if (/^(false|0|no)$/i.test(value)) {
+        return false;
+    }
+    // Left as a string so validation reports the field.
+    return value;
+}
+
+/**
+ * Reads agent options from `LICENSE_AGENT_*` environment variables. Unset and empty variables are skipped.
+ * @see CONFIG_ENV_VARIABLES
+ */
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<LicenseAgentConfig> {
+    const config: Record<string, unknown> = {};
+
+    for (const [variable, field] of Object.entries(CONFIG_ENV_VARIABLES)) {
+        const value = env[variable];
+        if (value === undefined || value === '') {
+            continue;
+        }
+
+        if (field === 'cacheStore') {
+            config.cacheStore = new FileCacheStore(value);
+            config.usageStore = new FileUsageStore(value);
+        } else if (field === 'serverUrl' && value.includes(',')) {
+            config.serverUrl = value.split(',').map((url) => url.trim());
+        } else if (NUMBER_FIELDS.has(field)) {
+            config[field] = Number(value);
+        } else if (field === 'fingerprint') {
+            // Only disabling makes sense from a string; fingerprint options need a config file.
+            const enabled = parseBoolean(value);
+            if (enabled !== true) {
+                config.fingerprint = enabled;
+            }
+        } else if (BOOLEAN_FIELDS.has(field)) {
+            config[field] = parseBoolean(value);
+        } else {
+            config[field] = value;
+        }
+    }
+
+    return config as Partial<LicenseAgentConfig>;
+}
+
+/**
+ * Reads agent options from a JSON file.
+ * @throws {InvalidConfigError} If the file cannot be read or is not a JSON object.
+ */
+export async function loadConfigFile(filePath: string): Promise<Partial<LicenseAgentConfig>> {
+    let parsed: FileConfig;
+    try {
+        parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+        throw new InvalidConfigError(`Could not read config file ${filePath}: ${(error as Error).message}`);
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new InvalidConfigError(`Config file ${filePath} must contain a JSON object`);
+    }
+
+    const { cacheDir, ...config } = parsed;
+    return cacheDir
+        ? { ...config, cacheStore: new FileCacheStore(cacheDir), usageStore: new FileUsageStore(cacheDir) }
+        : config;
+}
+
+function validateSchedule(
+    field: 'revalidation' | 'heartbeat',
+    configured: LicenseAgentConfig['revalidation'],
+    defaultInterval: number
+): ConfigProblem[] {
+    const options = resolveRevalidationOptions(configured, defaultInterval);
+    const problems: ConfigProblem[] = [];
+
+    if (!(options.interval > 0) || !(options.gracePeriodInterval > 0)) {
+        problems.push({ field, message: `${field} intervals must be positive numbers` });
+    }
+    if (!(options.jitter >= 0 && options.jitter <= 1)) {
+        problems.push({ field, message: `${field}.jitter must be between 0 and 1` });
+    }
+    return problems;
+}
+
+function validateRetry(retry: LicenseAgentConfig['retry']): ConfigProblem[] {
+    const options = resolveRetryOptions(retry);
+    const problem = (message: string): ConfigProblem => ({ field: 'retry', message });
+    const problems: ConfigProblem[] = [];
+
+    if (!Number.isInteger(options.maxAttempts) || options.maxAttempts < 1) {
+        problems.push(problem('retry.maxAttempts must be a positive integer'));
+    }
+    if (!(options.baseDelay >= 0) || !(options.maxDelay >= options.baseDelay)) {
+        problems.push(problem('retry.baseDelay must be non-negative and not exceed retry.maxDelay'));
+    }
+    if (!(options.jitter >= 0 && options.jitter <= 1)) {
+        problems.push(problem('retry.jitter must be between 0 and 1'));
+    }
+    if (options.deadline !== undefined && !(options.deadline > 0)) {
+        problems.push(problem('retry.deadline must be a positive number'));
+    }
+    return problems;
+}
+
+function validateUsage(usage: LicenseAgentConfig['usage']): ConfigProblem[] {
+    const options = resolveUsageOptions(usage);
+    const problem = (message: string): ConfigProblem => ({ field: 'usage', message });
+    const problems: ConfigProblem[] = [];
+
+    if (!(options.flushInterval > 0)) {
+        problems.push(problem('usage.flushInterval must be a positive number'));
+    }
+    if (!Number.isInteger(options.batchSize) || options.batchSize < 1) {
+        problems.push(problem('usage.batchSize must be a positive integer'));
+    } else if (!Number.isInteger(options.maxQueueSize) || options.maxQueueSize < options.batchSize) {
+        problems.push(problem('usage.maxQueueSize must be an integer not smaller than usage.batchSize'));
+    }
+    return problems;
+}
+
+function validateFailover(failover: LicenseAgentConfig['failover']): ConfigProblem[] {
+    const problems: ConfigProblem[] = [];
+    const failureThreshold = failover?.failureThreshold;
+    const probeInterval = failover?.probeInterval;
+
+    // Defaults are applied by FailoverTransport, which checks its options again when used on its own.
+    if (failureThreshold !== undefined && (!Number.isInteger(failureThreshold) || failureThreshold < 1)) {
+        problems.push({ field: 'failover', message: 'failover.failureThreshold must be a positive integer' });
+    }
+    if (probeInterval !== undefined && !(probeInterval > 0)) {
+        problems.push({ field: 'failover', message: 'failover.probeInterval must be a positive number' });
+    }
+    return problems;
+}
+
+/**
+ * Lists every problem of a config whose defaults have been applied. An empty list means the config is valid.
+ */
+export function validateConfig(config: Partial<LicenseAgentConfig>): ConfigProblem[] {
+    const problems: ConfigProblem[] = [];
+    const fields = config as Record<string, unknown>;
+
+    const { serverUrl } = config;
+    if (Array.isArray(serverUrl)) {
+        if (serverUrl.length === 0 || serverUrl.some((url) => typeof url !== 'string' || !url)) {
+            problems.push({ field: 'serverUrl', message: 'serverUrl must be a non-empty list of URLs' });
+        }
+    } else if (typeof serverUrl !== 'string' || !serverUrl) {
+        problems.push({ field: 'serverUrl', message: 'serverUrl is required' });
+    }
+
+    for (const field of ['apiKey', 'licenseKey', 'productName']) {
+        if (typeof fields[field] !== 'string' || !fields[field]) {
+            problems.push({ field, message: `${field} is required` });
+        }
+    }
+
+    for (const field of NUMBER_FIELDS) {
+        const value = fields[field];
+        if (value === undefined) {
+            continue;
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+            problems.push({ field, message: `${field} must be a non-negative number` });
+        } else if (field === 'requestTimeout' && value === 0) {
+            problems.push({ field, message: 'requestTimeout must be a positive number' });
+        }
+    }
+
+    const { cacheTTL, gracePeriod } = config;
+    if (
+        typeof cacheTTL === 'number' &&
+        typeof gracePeriod === 'number' &&
+        !problems.some((problem) => problem.field === 'cacheTTL' || problem.field === 'gracePeriod') &&
+        gracePeriod < cacheTTL
+    ) {
+        problems.push({ field: 'gracePeriod', message: 'gracePeriod must not be shorter than cacheTTL' });
+    }
+
+    if (config.deactivateOnExit !== undefined && typeof config.deactivateOnExit !== 'boolean') {
+        problems.push({ field: 'deactivateOnExit', message: 'deactivateOnExit must be a boolean' });
+    }
+    if (config.fingerprint !== undefined && config.fingerprint !== false && typeof config.fingerprint !== 'object') {
+        problems.push({ field: 'fingerprint', message: 'fingerprint must be false or an options object' });
+    }
+    if (config.enforcement !== undefined) {
+        problems.push(...validateEnforcementPolicy(config.enforcement));
+    }
+
+    // Revalidation defaults to half the cache TTL; without a usable TTL only configured intervals are checked.
+    const revalidationInterval =
+        typeof cacheTTL === 'number' && !problems.some((problem) => problem.field === 'cacheTTL')
+            ? cacheTTL / 2
+            : Infinity;
+    problems.push(
+        ...validateSchedule('revalidation', config.revalidation, revalidationInterval),
+        ...validateSchedule('heartbeat', config.heartbeat, DEFAULT_HEARTBEAT_INTERVAL),
+        ...validateRetry(config.retry),
+        ...validateUsage(config.usage),
+        ...validateFailover(config.failover)
+    );
+
+    return problems;
+}
+
+/**
+ * Throws if `validateConfig` finds any problem.
+ * @throws {InvalidConfigError} Listing every problem, both in the message and in `problems`.
+ */
+export function assertValidConfig(config: Partial<LicenseAgentConfig>): void {
+    const problems = validateConfig(config);
+    if (problems.length > 0) {
+        throw new InvalidConfigError(
+            `Invalid license agent config: ${problems.map((problem) => problem.message).join('; ')}`,
+            problems
+        );
+    }
+}
+
+function isPlainObject(value: object): boolean {
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/** Copy of a config that is safe to log: the API key is replaced and objects such as stores are named only. */
+export function redactConfig(config: Partial<LicenseAgentConfig>): Record<string, unknown> {
+    const redacted: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries(config)) {
+        if (field === 'apiKey') {
+            redacted[field] = value ? REDACTED : value;
+        } else if (field === 'publicKey') {
+            redacted[field] = value ? '[PublicKey]' : value;
+        } else if (value && typeof value === 'object' && !isPlainObject(value) && !Array.isArray(value)) {
+            redacted[field] = `[${value.constructor?.name || 'Object'}]`;
+        } else {
+            redacted[field] = value;
+        }
+    }
+
+    return redacted;
+}
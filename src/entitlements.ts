@@ -0,0 +1,23 @@
+/**
+ * Checks whether `allowedData` grants a feature, listed either in a `features` array
+ * or as `features: { [name]: true }`.
+ */
+export function grantsFeature(allowedData: unknown, name: string): boolean {
+    const features = (allowedData as { features?: unknown } | null | undefined)?.features;
+
+    if (Array.isArray(features)) {
+        return features.includes(name);
+    }
+    if (features && typeof features === 'object') {
+        return (features as Record<string, unknown>)[name] === true;
+    }
+    return false;
+}
+
+/**
+ * Reads a numeric limit from `allowedData.limits`, or null if it is not set.
+ */
+export function readLimit(allowedData: unknown, name: string): number | null {
+    const limit = (allowedData as { limits?: Record<string, unknown> } | null | undefined)?.limits?.[name];
+    return typeof limit === 'number' ? limit : null;
+}
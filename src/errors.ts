@@ -1,4 +1,5 @@
-import { ValidationResult } from './types';
+import { EnforcementLevel, ValidationResult } from './types';
+import { parseRetryAfter } from './retry';
 
 export class LicenseAgentError extends Error {
     constructor(message: string) {
@@ -22,20 +23,93 @@ export class NetworkError extends LicenseAgentError {
     }
 }
 
+export interface ConfigProblem {
+    field: string;
+    message: string;
+}
+
 export class InvalidConfigError extends LicenseAgentError {
-    constructor(message: string = 'Invalid agent configuration') {
+    /** Every invalid field found, when the whole config was checked at once. */
+    public problems: ConfigProblem[];
+
+    constructor(message: string = 'Invalid agent configuration', problems: ConfigProblem[] = []) {
         super(message);
         this.name = 'InvalidConfigError';
+        this.problems = problems;
+    }
+}
+
+export class HttpError extends LicenseAgentError {
+    public statusCode: number;
+    public responseBody?: unknown;
+    /** Delay in milliseconds requested by the server's Retry-After header, if any. */
+    public retryAfter?: number | null;
+    originalError?: Error;
+
+    constructor(
+        message: string,
+        statusCode: number,
+        responseBody?: unknown,
+        originalError?: Error,
+        retryAfter?: number | null
+    ) {
+        super(message);
+        this.name = 'HttpError';
+        this.statusCode = statusCode;
+        this.responseBody = responseBody;
+        this.originalError = originalError;
+        this.retryAfter = retryAfter;
+    }
+}
+
+export class AuthenticationError extends HttpError {
+    constructor(statusCode: number = 401, responseBody?: unknown, originalError?: Error) {
+        super(`License server rejected the API key (HTTP ${statusCode})`, statusCode, responseBody, originalError);
+        this.name = 'AuthenticationError';
+    }
+}
+
+export class BadRequestError extends HttpError {
+    constructor(statusCode: number = 400, responseBody?: unknown, originalError?: Error) {
+        super(`License server rejected the request (HTTP ${statusCode})`, statusCode, responseBody, originalError);
+        this.name = 'BadRequestError';
+    }
+}
+
+export class RateLimitedError extends HttpError {
+    constructor(retryAfter?: number | null, responseBody?: unknown, originalError?: Error) {
+        super('License server rate limit exceeded (HTTP 429)', 429, responseBody, originalError, retryAfter);
+        this.name = 'RateLimitedError';
     }
 }
 
-export class ValidationError extends LicenseAgentError {
+export class ServerError extends HttpError {
+    constructor(statusCode: number = 500, responseBody?: unknown, originalError?: Error, retryAfter?: number | null) {
+        super(
+            `License server failed to process the request (HTTP ${statusCode})`,
+            statusCode,
+            responseBody,
+            originalError,
+            retryAfter
+        );
+        this.name = 'ServerError';
+    }
+}
+
+export class SignatureVerificationError extends LicenseAgentError {
+    constructor(message: string = 'License signature verification failed') {
+        super(message);
+        this.name = 'SignatureVerificationError';
+    }
+}
+
+export class ValidationError<TEntitlements = any> extends LicenseAgentError {
     public reason?: string | null;
     public status?: string | null;
     public expiresAt?: Date | null;
-    public allowedData?: any | null;
+    public allowedData?: TEntitlements | null;
 
-    constructor(message: string, result: Omit<ValidationResult, 'isValid' | 'error'>) {
+    constructor(message: string, result: Omit<ValidationResult<TEntitlements>, 'isValid' | 'error'>) {
         super(message);
         this.name = 'ValidationError';
         this.reason = result.reason;
@@ -44,3 +118,110 @@ export class ValidationError extends LicenseAgentError {
         this.allowedData = result.allowedData;
     }
 }
+
+export class FeatureNotEntitledError<TEntitlements = any> extends ValidationError<TEntitlements> {
+    public feature: string;
+
+    constructor(feature: string, result: Omit<ValidationResult<TEntitlements>, 'isValid' | 'error'>) {
+        super(`License does not include feature "${feature}"`, result);
+        this.name = 'FeatureNotEntitledError';
+        this.feature = feature;
+    }
+}
+
+export class EnforcementError<TEntitlements = any> extends ValidationError<TEntitlements> {
+    public level: EnforcementLevel;
+
+    constructor(level: EnforcementLevel, result: Omit<ValidationResult<TEntitlements>, 'isValid' | 'error'>) {
+        super(`License enforcement level "${level}" is not allowed here`, result);
+        this.name = 'EnforcementError';
+        this.level = level;
+    }
+}
+
+/**
+ * The server answered, but not with a well-formed license response, e.g. a proxy error page with status 200.
+ * Treated as transient: the grace period covers it and the response is never cached.
+ */
+export class InvalidResponseError extends LicenseAgentError {
+    public problems: string[];
+    public responseBody?: unknown;
+
+    constructor(
+        message: string = 'License server returned an invalid response',
+        problems: string[] = [],
+        responseBody?: unknown
+    ) {
+        super(message);
+        this.name = 'InvalidResponseError';
+        this.problems = problems;
+        this.responseBody = responseBody;
+    }
+}
+
+export class InvalidUsageEventError extends LicenseAgentError {
+    constructor(message: string = 'Invalid usage event') {
+        super(message);
+        this.name = 'InvalidUsageEventError';
+    }
+}
+
+interface HttpLikeError {
+    response?: { status?: number; data?: unknown; headers?: Record<string, unknown> };
+}
+
+/**
+ * Maps a failed request to the matching agent error.
+ * Failures without an HTTP response become a NetworkError.
+ */
+export function toRequestError(error: unknown): LicenseAgentError {
+    if (error instanceof LicenseAgentError) {
+        return error;
+    }
+
+    const original = error as Error;
+    const response = (error as HttpLikeError | null)?.response;
+    if (!response || typeof response.status !== 'number') {
+        return new NetworkError('Failed to connect to license server', original);
+    }
+
+    return createHttpError(response.status, response.data, response.headers, original);
+}
+
+/**
+ * Maps a non-2xx response to the matching HttpError subclass. 408 comes from proxies and gateways timing out,
+ * so it is a ServerError like 5xx and, as with retries, counts as transient.
+ * @param headers Response headers with lower-case names.
+ */
+export function createHttpError(
+    status: number,
+    data?: unknown,
+    headers?: Record<string, unknown>,
+    originalError?: Error
+): HttpError {
+    const retryAfter = parseRetryAfter(headers?.['retry-after']);
+
+    if (status === 401 || status === 403) {
+        return new AuthenticationError(status, data, originalError);
+    }
+    if (status === 429) {
+        return new RateLimitedError(retryAfter, data, originalError);
+    }
+    if (status >= 500 || status === 408) {
+        return new ServerError(status, data, originalError, retryAfter);
+    }
+    return new BadRequestError(status, data, originalError);
+}
+
+/**
+ * Whether an error is expected to go away on its own, so the grace period may cover it.
+ * Authentication and bad-request errors point at misconfiguration and are never transient.
+ */
+export function isTransientError(error: unknown): boolean {
+    return (
+        error instanceof NetworkError ||
+        error instanceof ServerError ||
+        error instanceof RateLimitedError ||
+        error instanceof InvalidResponseError
+    );
+}
@@ -0,0 +1,117 @@
+import { EventEmitter } from 'events';
+import { UsageEvent, ValidationResult } from './types';
+
+export interface StatusChange {
+    previous: string | null | undefined;
+    next: string | null | undefined;
+    result: ValidationResult;
+}
+
+export interface LicenseAgentEvents {
+    /** The license became valid (including the first successful validation). */
+    valid: [result: ValidationResult];
+    /** The license became invalid (including the first failed validation). */
+    invalid: [result: ValidationResult];
+    gracePeriodEntered: [result: ValidationResult];
+    gracePeriodExpired: [result: ValidationResult];
+    /** The license server stopped answering. */
+    offline: [result: ValidationResult];
+    /** The license server answered again after being offline. */
+    recovered: [result: ValidationResult];
+    statusChanged: [change: StatusChange];
+    /** The license entered the `expiringSoonWindow` before its `expiresAt`. */
+    expiringSoon: [result: ValidationResult];
+    /** Usage events were discarded: the queue exceeded `usage.maxQueueSize` or the server rejected them. */
+    usageDropped: [events: UsageEvent[]];
+}
+
+/**
+ * Thin typed facade over node's EventEmitter.
+ * Listener exceptions are swallowed so that a faulty listener cannot break validation.
+ */
+export class TypedEventEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+    private emitter = new EventEmitter();
+
+    public on<K extends keyof Events & string>(event: K, listener: (...args: Events[K]) => void): this {
+        this.emitter.on(event, listener as (...args: unknown[]) => void);
+        return this;
+    }
+
+    public once<K extends keyof Events & string>(event: K, listener: (...args: Events[K]) => void): this {
+        this.emitter.once(event, listener as (...args: unknown[]) => void);
+        return this;
+    }
+
+    public off<K extends keyof Events & string>(event: K, listener: (...args: Events[K]) => void): this {
+        this.emitter.off(event, listener as (...args: unknown[]) => void);
+        return this;
+    }
+
+    public removeAllListeners<K extends keyof Events & string>(event?: K): this {
+        this.emitter.removeAllListeners(event);
+        return this;
+    }
+
+    protected emit<K extends keyof Events & string>(event: K, ...args: Events[K]): void {
+        for (const listener of this.emitter.rawListeners(event)) {
+            try {
+                (listener as (...args: unknown[]) => void).apply(this.emitter, args);
+            } catch {
+                // Listener errors are the caller's concern and must not affect the agent.
+            }
+        }
+    }
+}
+
+const isExpiringSoon = (result: ValidationResult, now: number, window: number): boolean =>
+    !!result.isValid && !!result.expiresAt && result.expiresAt.getTime() - now <= window;
+
+export interface Observation {
+    result: ValidationResult;
+    /** Epoch milliseconds at which the result was observed. */
+    at: number;
+}
+
+/**
+ * Lists the events implied by moving from the `previous` observation to `next`.
+ * `previous` is null when nothing is known yet about the license.
+ */
+export function detectTransitions(
+    previous: Observation | null,
+    next: Observation,
+    expiringSoonWindow: number
+): Array<{ [K in keyof LicenseAgentEvents]: [K, ...LicenseAgentEvents[K]] }[keyof LicenseAgentEvents]> {
+    const events: ReturnType<typeof detectTransitions> = [];
+    const prev = previous?.result;
+    const result = next.result;
+
+    if (result.isValid && (!prev || !prev.isValid)) {
+        events.push(['valid', result]);
+    }
+    if (!result.isValid && (!prev || prev.isValid)) {
+        events.push(['invalid', result]);
+    }
+    if (result.isOffline && !prev?.isOffline) {
+        events.push(['offline', result]);
+    }
+    if (prev?.isOffline && !result.isOffline) {
+        events.push(['recovered', result]);
+    }
+    if (result.isGracePeriod && !prev?.isGracePeriod) {
+        events.push(['gracePeriodEntered', result]);
+    }
+    if (prev?.isGracePeriod && result.isOffline && !result.isGracePeriod) {
+        events.push(['gracePeriodExpired', result]);
+    }
+    if (prev && prev.status !== result.status) {
+        events.push(['statusChanged', { previous: prev.status, next: result.status, result }]);
+    }
+    if (
+        isExpiringSoon(result, next.at, expiringSoonWindow) &&
+        !(previous && isExpiringSoon(previous.result, previous.at, expiringSoonWindow))
+    ) {
+        events.push(['expiringSoon', result]);
+    }
+
+    return events;
+}
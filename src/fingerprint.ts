@@ -0,0 +1,151 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import crypto from 'crypto';
+import { FingerprintComponent, FingerprintOptions, MachineFingerprint } from './types';
+
+export const DEFAULT_FINGERPRINT_COMPONENTS: FingerprintComponent[] = [
+    'machineId',
+    'hostname',
+    'cpuModel',
+    'macAddresses',
+    'container',
+];
+
+/** Number of components allowed to change while keeping the persisted fingerprint id. */
+export const DEFAULT_FINGERPRINT_TOLERANCE = 1;
+
+const DEFAULT_MACHINE_ID_PATHS = ['/etc/machine-id', '/var/lib/dbus/machine-id'];
+
+/** Components regenerated for every container instance, and therefore left out inside containers. */
+const EPHEMERAL_IN_CONTAINER: FingerprintComponent[] = ['hostname', 'macAddresses'];
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+async function readFirst(paths: string[]): Promise<string | null> {
+    for (const filePath of paths) {
+        try {
+            const content = (await fs.readFile(filePath, 'utf8')).trim();
+            if (content) {
+                return content;
+            }
+        } catch {
+            // Try the next location.
+        }
+    }
+    return null;
+}
+
+/**
+ * Detects the container runtime the process runs in.
+ * @returns The runtime name, or null when running directly on a host.
+ */
+export async function detectContainer(): Promise<string | null> {
+    if (process.env.KUBERNETES_SERVICE_HOST) {
+        return 'kubernetes';
+    }
+
+    const markers: Array<[string, string]> = [
+        ['/.dockerenv', 'docker'],
+        ['/run/.containerenv', 'podman'],
+    ];
+    for (const [marker, runtime] of markers) {
+        try {
+            await fs.access(marker);
+            return runtime;
+        } catch {
+            // Not present.
+        }
+    }
+
+    const cgroup = await readFirst(['/proc/1/cgroup']);
+    const match = cgroup?.match(/docker|kubepods|containerd|lxc/);
+    if (match) {
+        return match[0] === 'kubepods' ? 'kubernetes' : match[0];
+    }
+
+    return null;
+}
+
+function macAddresses(): string | null {
+    const addresses = new Set<string>();
+    for (const entries of Object.values(os.networkInterfaces())) {
+        for (const entry of entries ?? []) {
+            if (!entry.internal && entry.mac && entry.mac !== '00:00:00:00:00:00') {
+                addresses.add(entry.mac.toLowerCase());
+            }
+        }
+    }
+    return addresses.size > 0 ? [...addresses].sort().join(',') : null;
+}
+
+async function readComponent(
+    component: FingerprintComponent,
+    options: FingerprintOptions,
+    container: string | null
+): Promise<string | null> {
+    switch (component) {
+        case 'machineId':
+            return readFirst(options.machineIdPaths ?? DEFAULT_MACHINE_ID_PATHS);
+        case 'hostname':
+            return os.hostname() || null;
+        case 'cpuModel':
+            return os.cpus()[0]?.model?.trim() || null;
+        case 'macAddresses':
+            return macAddresses();
+        case 'container':
+            return container ?? 'none';
+    }
+}
+
+/**
+ * Builds a hashed machine fingerprint from the configured components.
+ * Raw component values never leave this function; only their SHA-256 hashes are returned.
+ * Components that cannot be read on this platform are skipped.
+ */
+export async function generateFingerprint(options: FingerprintOptions = {}): Promise<MachineFingerprint> {
+    const container = await detectContainer();
+    let names = options.components ?? DEFAULT_FINGERPRINT_COMPONENTS;
+    if (container) {
+        names = names.filter((name) => !EPHEMERAL_IN_CONTAINER.includes(name));
+    }
+
+    const components: MachineFingerprint['components'] = {};
+    for (const name of names) {
+        const value = await readComponent(name, options, container);
+        if (value !== null) {
+            components[name] = sha256(`${name}:${value}`);
+        }
+    }
+
+    const id = sha256(
+        Object.keys(components)
+            .sort()
+            .map((name) => `${name}=${components[name as FingerprintComponent]}`)
+            .join(';')
+    );
+
+    return { id, components, container };
+}
+
+/**
+ * Counts the components that differ between two fingerprints. A component present in only one of them counts as changed.
+ */
+export function countChangedComponents(a: MachineFingerprint, b: MachineFingerprint): number {
+    const names = new Set([...Object.keys(a.components), ...Object.keys(b.components)]) as Set<FingerprintComponent>;
+    return [...names].filter((name) => a.components[name] !== b.components[name]).length;
+}
+
+/**
+ * Keeps the previously persisted fingerprint id when at most `tolerance` components changed,
+ * so that e.g. adding a network card does not turn the machine into a new one.
+ */
+export function reconcileFingerprint(
+    current: MachineFingerprint,
+    stored: MachineFingerprint | null | undefined,
+    tolerance: number
+): MachineFingerprint {
+    if (stored && countChangedComponents(current, stored) <= tolerance) {
+        return { ...current, id: stored.id };
+    }
+    return current;
+}
@@ -1,100 +1,362 @@
-import axios, { AxiosInstance } from 'axios';
+import crypto, { KeyObject } from 'crypto';
 import {
     LicenseAgentConfig,
     ValidationRequestPayload,
     ValidationApiResponse,
     ValidationResult,
     CacheEntry,
+    ResolvedLicenseAgentConfig,
+    ActivationApiResponse,
+    MachineFingerprint,
+    FeatureName,
+    LimitName,
+    Transport,
+    TransportRequestOptions,
+    TransportResponse,
+    Clock,
+    Logger,
+    RequestOutcome,
+    UsageEvent,
+    UsageFlushResult,
+    EnforcementLevel,
 } from './types';
-import { InvalidConfigError, NetworkError, ValidationError } from './errors';
+import {
+    AuthenticationError,
+    EnforcementError,
+    FeatureNotEntitledError,
+    HttpError,
+    InvalidConfigError,
+    InvalidResponseError,
+    InvalidUsageEventError,
+    LicenseAgentError,
+    SignatureVerificationError,
+    ValidationError,
+    isTransientError,
+    toRequestError,
+} from './errors';
+import { MemoryCacheStore, MemoryUsageStore } from './cache';
+import { createVerificationKey, verifyOfflineLicense, verifyResponseSignature } from './signature';
+import { DEFAULT_HEARTBEAT_INTERVAL, RevalidationScheduler, resolveRevalidationOptions } from './scheduler';
+import { ResolvedRetryOptions, resolveRetryOptions, withRetry } from './retry';
+import { DEFAULT_FINGERPRINT_TOLERANCE, generateFingerprint, reconcileFingerprint } from './fingerprint';
+import { grantsFeature, readLimit } from './entitlements';
+import { createDefaultTransport } from './transport';
+import { assertValidConfig, configFromEnv, loadConfigFile, redactConfig } from './config';
+import { createRedactingLogger, emitMetric, maskLicenseKey, noopLogger } from './observability';
+import { UsageQueue, resolveUsageOptions } from './usage';
+import { parseActivationResponse, parseValidationResponse } from './response';
+import { DEFAULT_ALLOWED_LEVELS, resolveEnforcement } from './policy';
+import { LicenseAgentEvents, Observation, TypedEventEmitter, detectTransitions } from './events';
 
 const DEFAULT_CACHE_TTL = 60 * 60 * 1000;
 const DEFAULT_GRACE_PERIOD = 24 * 60 * 60 * 1000;
 const DEFAULT_REQUEST_TIMEOUT = 10000;
+const DEFAULT_EXPIRING_SOON_WINDOW = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_CLOCK_ROLLBACK_TOLERANCE = 5 * 60 * 1000;
+/** The `Date` header has one-second resolution, so smaller offsets are noise. */
+const MIN_CLOCK_OFFSET = 1000;
+const EXIT_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+const SYSTEM_CLOCK: Clock = { now: () => Date.now() };
+/** Transitions logged as warnings; the rest are logged at info level. */
+const WARNING_EVENTS = new Set<keyof LicenseAgentEvents>([
+    'invalid',
+    'offline',
+    'gracePeriodEntered',
+    'gracePeriodExpired',
+]);
 
 interface ApiValidateRequest {
     license_key: string;
     product_name: string;
     metadata?: Record<string, unknown> | null;
+    fingerprint?: string;
+}
+
+interface ApiActivationRequest extends ApiValidateRequest {
+    activation_id?: string;
 }
 
-export class LicenseAgent {
-    public config: Required<Omit<LicenseAgentConfig, 'staticMetadata'>> & { staticMetadata?: Record<string, unknown> };
-    private apiClient: AxiosInstance;
-    private cache: CacheEntry | null = null;
+export class LicenseAgent<TEntitlements = any> extends TypedEventEmitter<LicenseAgentEvents> {
+    public config: ResolvedLicenseAgentConfig;
+    private transport: Transport;
+    private cacheKey: string;
+    private activationKey: string;
+    private verificationKey: KeyObject | null;
+    private scheduler: RevalidationScheduler;
+    private heartbeatScheduler: RevalidationScheduler;
+    private exitHandlers: Array<[string, (...args: unknown[]) => void]> = [];
+    private retryOptions: ResolvedRetryOptions;
+    private lastObservation: Observation | null = null;
+    private lastResult: ValidationResult | null = null;
+    private machineFingerprint: MachineFingerprint | null = null;
+    private fingerprintId: Promise<string | null> | null = null;
+    private inFlight = new Map<string, Promise<ValidationResult>>();
+    private clockOffset: number | null = null;
+    private lastSeenAt = 0;
+    private logger: Logger;
+    private usageQueue: UsageQueue;
 
     constructor(config: LicenseAgentConfig) {
-        if (!config.serverUrl || !config.apiKey || !config.productName) {
-            throw new InvalidConfigError('serverUrl, apiKey, and productName are required');
-        }
+        super();
 
         this.config = {
             ...config,
             cacheTTL: config.cacheTTL ?? DEFAULT_CACHE_TTL,
             gracePeriod: config.gracePeriod ?? DEFAULT_GRACE_PERIOD,
             requestTimeout: config.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT,
+            cacheStore: config.cacheStore ?? new MemoryCacheStore(),
+            usageStore: config.usageStore ?? new MemoryUsageStore(),
+            expiringSoonWindow: config.expiringSoonWindow ?? DEFAULT_EXPIRING_SOON_WINDOW,
+            clockRollbackTolerance: config.clockRollbackTolerance ?? DEFAULT_CLOCK_ROLLBACK_TOLERANCE,
+            deactivateOnExit: config.deactivateOnExit ?? true,
+            staleWhileRevalidate: config.staleWhileRevalidate ?? 0,
+            clock: config.clock ?? SYSTEM_CLOCK,
         };
+        assertValidConfig(this.config);
+        // Keeps the API key out of logs that serialize the config.
+        Object.defineProperty(this.config, 'toJSON', { value: () => redactConfig(this.config), enumerable: false });
+        this.cacheKey = `${this.config.productName}:${this.config.licenseKey}`;
+        this.activationKey = `${this.cacheKey}:activation`;
+        this.verificationKey = this.config.publicKey ? createVerificationKey(this.config.publicKey) : null;
+        this.scheduler = new RevalidationScheduler(
+            () => this.validate(),
+            resolveRevalidationOptions(this.config.revalidation, this.config.cacheTTL / 2)
+        );
+        this.heartbeatScheduler = new RevalidationScheduler(
+            () => this.heartbeat(),
+            resolveRevalidationOptions(this.config.heartbeat, DEFAULT_HEARTBEAT_INTERVAL)
+        );
+        this.retryOptions = resolveRetryOptions(this.config.retry);
 
-        this.apiClient = axios.create({
-            baseURL: this.config.serverUrl,
-            timeout: this.config.requestTimeout,
-            headers: {
-                'Content-Type': 'application/json',
-                'X-API-Key': this.config.apiKey,
+        this.logger = this.config.logger
+            ? createRedactingLogger(this.config.logger, [this.config.apiKey, this.config.licenseKey])
+            : noopLogger;
+        this.transport =
+            this.config.transport ??
+            createDefaultTransport(this.config, {
+                ...this.config.failover,
+                clock: this.config.clock,
+                onStateChange: (health) => {
+                    const level = health.state === 'open' ? 'warn' : 'info';
+                    this.logger[level](`License server endpoint circuit ${health.state}`, {
+                        ...this.logContext(),
+                        ...health,
+                    });
+                },
+            });
+        this.usageQueue = new UsageQueue(
+            (events) => this.sendUsage(events),
+            {
+                load: async () => (await this.config.usageStore.get(this.cacheKey)) ?? [],
+                save: (events) => this.config.usageStore.set(this.cacheKey, events),
             },
-        });
+            resolveUsageOptions(this.config.usage),
+            (events) => {
+                this.logger.warn('Dropped usage events', { ...this.logContext(), count: events.length });
+                this.emit('usageDropped', events);
+            }
+        );
+    }
+
+    /**
+     * Creates an agent from `LICENSE_AGENT_*` environment variables (see CONFIG_ENV_VARIABLES).
+     * @param overrides Options that take precedence over the environment, e.g. a custom transport.
+     * @param env Environment to read instead of `process.env`.
+     * @throws {InvalidConfigError} Listing every missing or invalid field.
+     */
+    public static fromEnv<TEntitlements = any>(
+        overrides: Partial<LicenseAgentConfig> = {},
+        env: NodeJS.ProcessEnv = process.env
+    ): LicenseAgent<TEntitlements> {
+        return new LicenseAgent<TEntitlements>({ ...configFromEnv(env), ...overrides } as LicenseAgentConfig);
+    }
+
+    /**
+     * Creates an agent from a JSON config file. `cacheDir` in the file selects a FileCacheStore.
+     * @param overrides Options that take precedence over the file.
+     * @throws {InvalidConfigError} If the file cannot be read, listing every missing or invalid field otherwise.
+     */
+    public static async fromFile<TEntitlements = any>(
+        filePath: string,
+        overrides: Partial<LicenseAgentConfig> = {}
+    ): Promise<LicenseAgent<TEntitlements>> {
+        const config = await loadConfigFile(filePath);
+        return new LicenseAgent<TEntitlements>({ ...config, ...overrides } as LicenseAgentConfig);
+    }
+
+    /**
+     * Returns the config with the API key redacted, so logging the agent does not leak it.
+     */
+    public toJSON(): Record<string, unknown> {
+        return redactConfig(this.config);
     }
 
     /**
      * Validates the license against the server.
      * Returns the validation result, potentially using cache or grace period.
+     * Concurrent calls with the same metadata share a single server request.
+     * Valid results past `expiresAt` are reported as `expired`, and as `expiring_soon` within `expiringSoonWindow`.
+     * If the local clock went back further than `clockRollbackTolerance`, the cache is bypassed and, without a server
+     * answer, the result is `clock_tampered`.
+     * Malformed server responses count as transient failures: they are never cached, the grace period covers them,
+     * and without a cached result the reason is `invalid_response`.
+     * Emits transition events when the result differs from the previous one.
      * @param payload Optional dynamic metadata for this specific validation check.
      * @returns Promise<ValidationResult>
      */
-    public async validate(payload?: ValidationRequestPayload): Promise<ValidationResult> {
-        const now = Date.now();
+    public async validate(payload?: ValidationRequestPayload): Promise<ValidationResult<TEntitlements>> {
+        const now = this.config.clock.now();
+        const cache = await this.readCache();
+        const age = cache ? now - cache.timestamp : Infinity;
+        if (this.clockOffset === null && cache?.clockOffset !== undefined) {
+            this.clockOffset = cache.clockOffset;
+        }
 
-        if (this.cache && now - this.cache.timestamp < this.config.cacheTTL) {
-            const cachedResult = { ...this.cache.result };
-            return cachedResult;
+        if (this.isClockRolledBack(now, cache)) {
+            this.logger.warn('System clock moved backwards; bypassing the cache', this.logContext());
+            emitMetric(this.config.metrics, 'cacheMiss');
+            return { ...(await this.refresh(payload, cache, now)) };
         }
 
-        try {
-            const requestData: ApiValidateRequest = {
-                license_key: this.config.licenseKey,
-                product_name: this.config.productName,
-                metadata: { ...this.config.staticMetadata, ...payload?.metadata },
-            };
+        if (cache && age < this.config.cacheTTL) {
+            const cachedResult = { ...cache.result };
+            this.logger.debug('Serving cached validation result', { ...this.logContext(), age });
+            emitMetric(this.config.metrics, 'cacheHit');
+            return this.observe(cachedResult, cache, now);
+        }
+
+        if (cache && age < this.config.cacheTTL + this.config.staleWhileRevalidate) {
+            this.logger.debug('Serving stale validation result while refreshing', { ...this.logContext(), age });
+            emitMetric(this.config.metrics, 'cacheHit');
+            this.refresh(payload, cache, now).catch(() => undefined);
+            return this.observe(this.staleResult(cache), cache, now);
+        }
+
+        emitMetric(this.config.metrics, 'cacheMiss');
+        return { ...(await this.refresh(payload, cache, now)) };
+    }
+
+    private refresh(
+        payload: ValidationRequestPayload | undefined,
+        cache: CacheEntry | null,
+        now: number
+    ): Promise<ValidationResult> {
+        const key = JSON.stringify(payload?.metadata ?? null);
+        let pending = this.inFlight.get(key);
 
-            if (requestData.metadata && Object.keys(requestData.metadata).length === 0) {
-                if (requestData.metadata) {
-                    delete requestData.metadata;
+        if (!pending) {
+            pending = (async () => {
+                try {
+                    const result = await this.resolveResult(payload, cache, now);
+                    return this.observe(result, cache, now);
+                } finally {
+                    this.inFlight.delete(key);
                 }
+            })();
+            this.inFlight.set(key, pending);
+        }
+
+        return pending;
+    }
+
+    /**
+     * Cached result served within the stale-while-revalidate window. After a failed background refresh it keeps the
+     * verdict of that failure, so serving the cache again does not look like a recovery.
+     */
+    private staleResult(cache: CacheEntry): ValidationResult {
+        const stale = { ...cache.result, isStale: true };
+        const last = this.lastObservation;
+        if (!last?.result.error || last.at < cache.timestamp) {
+            return stale;
+        }
+
+        const { isValid, isOffline, isGracePeriod, reason, error } = last.result;
+        return { ...stale, isValid, isOffline, isGracePeriod, reason, error };
+    }
+
+    private observe(observed: ValidationResult, cache: CacheEntry | null, now: number): ValidationResult {
+        const result = this.withEnforcement(this.enforceExpiry(observed, now), now);
+        if (result.reason !== 'clock_tampered') {
+            this.lastSeenAt = Math.max(this.lastSeenAt, now);
+        }
+
+        const previous = this.lastObservation ?? (cache ? { result: cache.result, at: cache.timestamp } : null);
+
+        this.lastObservation = { result, at: now };
+        this.lastResult = result;
+        const transitions = detectTransitions(previous, this.lastObservation, this.config.expiringSoonWindow);
+        for (const [event, ...args] of transitions) {
+            const level = WARNING_EVENTS.has(event) ? 'warn' : 'info';
+            this.logger[level](`License ${event}`, {
+                ...this.logContext(),
+                reason: result.reason,
+                status: result.status,
+            });
+            if (event === 'gracePeriodEntered') {
+                emitMetric(this.config.metrics, 'gracePeriodEntered', result);
             }
+            this.emit(event, ...(args as [never]));
+        }
+        emitMetric(this.config.metrics, 'validation', result);
 
-            const response = await this.apiClient.post<ValidationApiResponse>('/licenses/validate', requestData);
-            const apiResult = response.data;
+        return result;
+    }
 
-            const expiresAt = apiResult.expires_at ? new Date(apiResult.expires_at) : null;
+    private async resolveResult(
+        payload: ValidationRequestPayload | undefined,
+        cache: CacheEntry | null,
+        now: number
+    ): Promise<ValidationResult> {
+        try {
+            const { data, endpoint } = await this.request<unknown>(
+                '/licenses/validate',
+                await this.buildRequest(payload),
+                parseValidationResponse
+            );
+            const apiResult = parseValidationResponse(data);
 
-            const result: ValidationResult = {
-                isValid: apiResult.is_valid,
-                reason: apiResult.reason,
-                status: apiResult.status,
-                expiresAt: expiresAt,
-                allowedData: apiResult.allowed_data,
-                lastCheckedAt: new Date(),
-            };
+            if (!this.isAuthentic(apiResult)) {
+                return this.invalidSignatureResult();
+            }
+
+            const result = this.toResult(apiResult, new Date(this.config.clock.now()), endpoint);
 
-            this.updateCache(result);
+            await this.updateCache(result, apiResult);
+            // The server answered, so the current local time is the new baseline for rollback detection.
+            this.lastSeenAt = now;
+            // Connectivity is back, so usage events saved while offline can go out.
+            this.usageQueue.resume();
 
             return result;
         } catch (error) {
-            const networkError = new NetworkError('Failed to connect to license server', error as Error);
+            const requestError = toRequestError(error);
+
+            if (!isTransientError(requestError)) {
+                return this.requestFailureResult(requestError);
+            }
+            if (requestError instanceof InvalidResponseError) {
+                this.logger.warn(requestError.message, { ...this.logContext(), problems: requestError.problems });
+            }
+
+            if (this.isClockRolledBack(now, cache)) {
+                this.logger.warn('System clock moved backwards while offline', this.logContext());
+                return {
+                    ...cache?.result,
+                    isValid: false,
+                    isOffline: true,
+                    isGracePeriod: false,
+                    reason: 'clock_tampered',
+                    error: requestError,
+                };
+            }
 
-            if (this.cache) {
-                const timeSinceLastCheck = now - this.cache.timestamp;
-                const lastValidResult = this.cache.result;
+            if (cache) {
+                await this.recordLastSeen(cache, now);
+
+                // Both ends are local times, so the server clock offset cancels out; measuring to the latest time seen
+                // keeps a backward step within clockRollbackTolerance from reopening the window.
+                const timeSinceLastCheck = Math.max(now, this.latestSeen(cache)) - cache.timestamp;
+                const lastValidResult = cache.result;
 
                 if (lastValidResult.isValid && timeSinceLastCheck < this.config.gracePeriod) {
                     return {
@@ -103,7 +365,7 @@ export class LicenseAgent {
                         isOffline: true,
                         isGracePeriod: true,
                         reason: 'grace_period',
-                        error: networkError,
+                        error: requestError,
                     };
                 } else {
                     return {
@@ -112,15 +374,16 @@ export class LicenseAgent {
                         isOffline: true,
                         isGracePeriod: false,
                         reason: lastValidResult.reason || 'offline_validation_failed',
-                        error: networkError,
+                        error: requestError,
                     };
                 }
             } else {
                 return {
                     isValid: false,
                     isOffline: true,
-                    reason: 'network_error_no_cache',
-                    error: networkError,
+                    reason:
+                        requestError instanceof InvalidResponseError ? 'invalid_response' : 'network_error_no_cache',
+                    error: requestError,
                 };
             }
         }
@@ -132,47 +395,734 @@ export class LicenseAgent {
      * @param payload Optional dynamic metadata.
      * @returns Promise<ValidationResult>
      */
-    public async forceValidate(payload?: ValidationRequestPayload): Promise<ValidationResult> {
-        this.clearCache();
+    public async forceValidate(payload?: ValidationRequestPayload): Promise<ValidationResult<TEntitlements>> {
+        await this.clearCache();
         return this.validate(payload);
     }
 
     /**
-     * Checks the license validity and throws a ValidationError if invalid.
+     * Checks the license and throws unless the result's enforcement level is allowed. By default every level but
+     * `blocked` is; without an `enforcement` policy that means valid licenses, including the grace period.
      * @param payload Optional dynamic metadata.
+     * @param options.allow Enforcement levels accepted, e.g. `['full']` before writes when a policy can grant `read_only`.
+     * @throws {EnforcementError} If the level is not allowed and the license is valid or only degraded, not blocked.
      * @throws {ValidationError} If the license is not valid (excluding network errors during grace period).
      * @throws {NetworkError} If a network error occurs and grace period is not active or cache is unavailable.
-     * @throws {LicenseAgentError} For other agent errors.
+     * @throws {AuthenticationError} If the server rejects the API key; the grace period never covers this.
+     * @throws {BadRequestError} If the server rejects the request, e.g. because serverUrl is wrong.
+     * @throws {LicenseAgentError} For other agent errors (server errors, rate limiting, bad signatures).
      */
-    public async checkOrThrow(payload?: ValidationRequestPayload): Promise<void> {
+    public async checkOrThrow(
+        payload?: ValidationRequestPayload,
+        options: { allow?: readonly EnforcementLevel[] } = {}
+    ): Promise<void> {
         const result = await this.validate(payload);
+        const level = result.enforcement ?? (result.isValid ? 'full' : 'blocked');
 
-        if (!result.isValid) {
-            if (result.isGracePeriod) {
-                return;
-            }
+        if ((options.allow ?? DEFAULT_ALLOWED_LEVELS).includes(level)) {
+            return;
+        }
 
-            if (result.error && result.error instanceof NetworkError) {
+        if (level === 'blocked' && !result.isValid) {
+            if (result.error && result.error instanceof LicenseAgentError) {
                 throw result.error;
             }
 
             throw new ValidationError(result.reason || 'License validation failed', result);
         }
+
+        throw new EnforcementError<TEntitlements>(level, result);
     }
 
-    private updateCache(result: ValidationResult): void {
-        if (!result.isOffline && !result.isGracePeriod) {
-            this.cache = {
+    /**
+     * Returns the entitlements (`allowedData`) of the last validation result, including results of
+     * `validateOffline()`, `activate()` and `heartbeat()`.
+     * Returns null if the license has not been validated yet, is invalid, or its grace period has run out.
+     */
+    public getEntitlements(): TEntitlements | null {
+        return this.entitledResult()?.allowedData ?? null;
+    }
+
+    /**
+     * Checks whether the last validation result grants a feature, listed either in a `features`
+     * array or as `features: { [name]: true }`. Does not contact the server; call `validate()`, `start()` or `validateOffline()` first.
+     * @param name Feature name.
+     */
+    public hasFeature(name: FeatureName<TEntitlements>): boolean {
+        return grantsFeature(this.getEntitlements(), name);
+    }
+
+    /**
+     * Returns a numeric limit from `limits` of the last validation result, or null if it is not set
+     * or the license is not currently valid.
+     * @param name Limit name.
+     */
+    public getLimit(name: LimitName<TEntitlements>): number | null {
+        return readLimit(this.getEntitlements(), name);
+    }
+
+    /**
+     * Throws unless the last validation result grants a feature.
+     * @param name Feature name.
+     * @throws {FeatureNotEntitledError} If the feature is missing or the license is not currently valid.
+     */
+    public checkFeatureOrThrow(name: FeatureName<TEntitlements>): void {
+        if (this.hasFeature(name)) {
+            return;
+        }
+
+        const result = this.lastResult;
+        const reason = !result ? 'not_validated' : result.isValid ? 'feature_not_entitled' : result.reason;
+        throw new FeatureNotEntitledError<TEntitlements>(name, { ...result, reason });
+    }
+
+    /**
+     * Validates a signed offline license token using the configured public key, without contacting the server.
+     * @param token The offline license token issued for this product.
+     * @returns ValidationResult
+     * @throws {InvalidConfigError} If no publicKey is configured.
+     */
+    public validateOffline(token: string): ValidationResult<TEntitlements> {
+        if (!this.config.publicKey) {
+            throw new InvalidConfigError('publicKey is required to validate offline licenses');
+        }
+
+        const now = this.config.clock.now();
+        const result = verifyOfflineLicense(token, {
+            publicKey: this.config.publicKey,
+            productName: this.config.productName,
+            licenseKey: this.config.licenseKey,
+            now,
+        });
+        return this.remember(result, now);
+    }
+
+    /**
+     * Activates a seat for this license. The activation id is persisted in the cache store,
+     * so a restarted process reuses its seat instead of taking a new one.
+     * @param payload Optional dynamic metadata.
+     * @returns Promise<ValidationResult> with `activationId` set on success.
+     */
+    public async activate(payload?: ValidationRequestPayload): Promise<ValidationResult<TEntitlements>> {
+        const activationId = await this.getActivationId();
+        const requestData: ApiActivationRequest = await this.buildRequest(payload);
+        if (activationId) {
+            requestData.activation_id = activationId;
+        }
+
+        let apiResult: ActivationApiResponse;
+        let endpoint: string | undefined;
+        try {
+            const response = await this.request<unknown>('/licenses/activate', requestData, parseActivationResponse);
+            apiResult = parseActivationResponse(response.data);
+            endpoint = response.endpoint;
+        } catch (error) {
+            return this.withEnforcement({ ...this.requestFailureResult(toRequestError(error)), activationId });
+        }
+
+        if (!this.isAuthentic(apiResult)) {
+            return this.withEnforcement(this.invalidSignatureResult());
+        }
+
+        const result: ValidationResult = {
+            ...this.toResult(apiResult, new Date(this.config.clock.now()), endpoint),
+            activationId: apiResult.activation_id ?? null,
+        };
+
+        if (result.isValid && result.activationId) {
+            await this.storeActivation(result);
+            this.registerExitHandlers();
+        }
+
+        return this.remember(result);
+    }
+
+    /**
+     * Reports that the activated seat is still in use. Floating seats are released by the server
+     * when heartbeats stop, so call this periodically or use `startHeartbeat()`.
+     * @returns Promise<ValidationResult> with reason `not_activated` if there is no activation.
+     */
+    public async heartbeat(): Promise<ValidationResult<TEntitlements>> {
+        const activationId = await this.getActivationId();
+        if (!activationId) {
+            return this.withEnforcement({ isValid: false, reason: 'not_activated', activationId: null });
+        }
+
+        let apiResult: ValidationApiResponse;
+        let endpoint: string | undefined;
+        try {
+            const response = await this.request<unknown>(
+                '/licenses/heartbeat',
+                {
+                    license_key: this.config.licenseKey,
+                    product_name: this.config.productName,
+                    activation_id: activationId,
+                },
+                parseValidationResponse
+            );
+            apiResult = parseValidationResponse(response.data);
+            endpoint = response.endpoint;
+        } catch (error) {
+            return this.withEnforcement({ ...this.requestFailureResult(toRequestError(error)), activationId });
+        }
+
+        if (!this.isAuthentic(apiResult)) {
+            return this.withEnforcement(this.invalidSignatureResult());
+        }
+
+        const result: ValidationResult = {
+            ...this.toResult(apiResult, new Date(this.config.clock.now()), endpoint),
+            activationId,
+        };
+
+        if (result.isValid) {
+            await this.storeActivation(result);
+        } else {
+            await this.forgetActivation();
+        }
+
+        return this.remember(result);
+    }
+
+    /**
+     * Releases the activated seat. Does nothing if there is no activation.
+     * @throws {LicenseAgentError} If the server could not be reached or refused the request.
+     */
+    public async deactivate(): Promise<void> {
+        this.unregisterExitHandlers();
+        await this.heartbeatScheduler.stop();
+
+        const activationId = await this.getActivationId();
+        if (!activationId) {
+            return;
+        }
+
+        try {
+            await this.request('/licenses/deactivate', {
+                license_key: this.config.licenseKey,
+                product_name: this.config.productName,
+                activation_id: activationId,
+            });
+        } catch (error) {
+            const requestError = toRequestError(error);
+            // The server no longer knows the activation, which is the outcome we wanted.
+            if (!(requestError instanceof HttpError && requestError.statusCode === 404)) {
+                throw requestError;
+            }
+        }
+
+        await this.forgetActivation();
+    }
+
+    /**
+     * Returns the persisted activation id, or null if this license has not been activated.
+     */
+    public async getActivationId(): Promise<string | null> {
+        try {
+            const entry = await this.config.cacheStore.get(this.activationKey);
+            return entry?.result.activationId ?? null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Returns the machine fingerprint sent to the server, or null if fingerprinting is disabled or failed.
+     * The id is kept stable across restarts while at most `fingerprint.tolerance` components change.
+     */
+    public async getFingerprint(): Promise<MachineFingerprint | null> {
+        await this.resolveFingerprintId();
+        return this.machineFingerprint;
+    }
+
+    /**
+     * Records consumption tied to this license, e.g. API calls or processed documents.
+     * Events are buffered and sent in batches (see the `usage` config); unsent events are kept in the usage store
+     * while the server is unreachable and replayed later under the same id, so the server counts each only once.
+     * @param metric Name of the consumed resource.
+     * @param quantity Amount consumed. Defaults to 1.
+     * @param attributes Extra data stored with the event.
+     * @returns Promise with the queued event; the usage store is updated on the next flush attempt or `stop()`.
+     * @throws {InvalidUsageEventError} If the metric is empty or the quantity is not a finite non-negative number.
+     */
+    public async recordUsage(
+        metric: string,
+        quantity: number = 1,
+        attributes?: Record<string, unknown>
+    ): Promise<UsageEvent> {
+        if (typeof metric !== 'string' || !metric) {
+            throw new InvalidUsageEventError('Usage metric must be a non-empty string');
+        }
+        if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity < 0) {
+            throw new InvalidUsageEventError('Usage quantity must be a non-negative number');
+        }
+
+        const event: UsageEvent = {
+            id: crypto.randomUUID(),
+            metric,
+            quantity,
+            attributes,
+            timestamp: this.config.clock.now(),
+        };
+        await this.usageQueue.add(event);
+        return event;
+    }
+
+    /**
+     * Sends all buffered usage events now instead of waiting for `usage.flushInterval`.
+     * @returns Promise with the number of sent and still pending events; it does not reject.
+     */
+    public async flushUsage(): Promise<UsageFlushResult> {
+        return this.usageQueue.flush();
+    }
+
+    /**
+     * Starts the periodic seat heartbeat using the `heartbeat` config.
+     * Timers are unref'd, so the heartbeat does not keep the process alive.
+     */
+    public startHeartbeat(): void {
+        this.heartbeatScheduler.start();
+    }
+
+    /**
+     * Stops the periodic seat heartbeat.
+     * @returns Promise that resolves once an in-progress heartbeat has finished.
+     */
+    public async stopHeartbeat(): Promise<void> {
+        await this.heartbeatScheduler.stop();
+    }
+
+    /**
+     * Starts periodic background validation using the `revalidation` config, and schedules the replay of usage
+     * events a previous process could not send.
+     * Timers are unref'd, so a running agent does not keep the process alive.
+     */
+    public start(): void {
+        this.scheduler.start();
+        this.usageQueue.resume();
+    }
+
+    /**
+     * Stops background validation and the seat heartbeat, and flushes buffered usage events.
+     * @returns Promise that resolves once in-progress runs have finished.
+     */
+    public async stop(): Promise<void> {
+        await Promise.all([this.scheduler.stop(), this.heartbeatScheduler.stop(), this.usageQueue.stop()]);
+    }
+
+    /**
+     * Stops the agent and removes its process exit handlers.
+     * The seat is not deactivated; its activation id stays in the cache store for a later agent to reuse.
+     * @param options.clearCache Also drop the cached result from the cache store. Defaults to false, so a persistent
+     * store keeps the result for the grace period of a later agent.
+     */
+    public async destroy(options: { clearCache?: boolean } = {}): Promise<void> {
+        this.unregisterExitHandlers();
+        await this.stop();
+        if (options.clearCache) {
+            await this.clearCache();
+        }
+    }
+
+    public get isRunning(): boolean {
+        return this.scheduler.isActive;
+    }
+
+    private async sendUsage(events: UsageEvent[]): Promise<void> {
+        await this.request('/licenses/usage', {
+            license_key: this.config.licenseKey,
+            product_name: this.config.productName,
+            events: events.map((event) => ({
+                event_id: event.id,
+                metric: event.metric,
+                quantity: event.quantity,
+                attributes: event.attributes ?? {},
+                recorded_at: new Date(event.timestamp).toISOString(),
+            })),
+        });
+    }
+
+    private async storeActivation(result: ValidationResult): Promise<void> {
+        try {
+            await this.config.cacheStore.set(this.activationKey, {
                 result: { ...result, error: undefined },
-                timestamp: Date.now(),
+                timestamp: this.config.clock.now(),
+            });
+        } catch {
+            // The seat stays active on the server; only its reuse after a restart is lost.
+        }
+    }
+
+    private async forgetActivation(): Promise<void> {
+        try {
+            await this.config.cacheStore.delete(this.activationKey);
+        } catch {
+            // A stale activation id is rejected by the server on the next heartbeat.
+        }
+    }
+
+    private registerExitHandlers(): void {
+        if (!this.config.deactivateOnExit || this.exitHandlers.length > 0) {
+            return;
+        }
+
+        const release = (signal?: NodeJS.Signals) => {
+            this.unregisterExitHandlers();
+            const done = () => {
+                // Re-raise the signal only if nobody else handles it, preserving the default exit behaviour.
+                if (signal && process.listenerCount(signal) === 0) {
+                    process.kill(process.pid, signal);
+                }
             };
+            this.deactivate().then(done, done);
+        };
+
+        this.exitHandlers = [
+            ['beforeExit', () => release()],
+            ...EXIT_SIGNALS.map((signal): [string, () => void] => [signal, () => release(signal)]),
+        ];
+        for (const [event, handler] of this.exitHandlers) {
+            process.once(event, handler);
+        }
+    }
+
+    private unregisterExitHandlers(): void {
+        for (const [event, handler] of this.exitHandlers) {
+            process.removeListener(event, handler);
+        }
+        this.exitHandlers = [];
+    }
+
+    private async buildRequest(payload?: ValidationRequestPayload): Promise<ApiValidateRequest> {
+        const requestData: ApiValidateRequest = {
+            license_key: this.config.licenseKey,
+            product_name: this.config.productName,
+            metadata: { ...this.config.staticMetadata, ...payload?.metadata },
+        };
+
+        if (requestData.metadata && Object.keys(requestData.metadata).length === 0) {
+            delete requestData.metadata;
+        }
+
+        const fingerprint = await this.resolveFingerprintId();
+        if (fingerprint) {
+            requestData.fingerprint = fingerprint;
+        }
+
+        return requestData;
+    }
+
+    private resolveFingerprintId(): Promise<string | null> {
+        const options = this.config.fingerprint;
+        if (options === false) {
+            return Promise.resolve(null);
         }
+
+        if (!this.fingerprintId) {
+            this.fingerprintId = (async () => {
+                try {
+                    const current = await generateFingerprint(options);
+                    const stored = (await this.readCache())?.fingerprint;
+                    const tolerance = options?.tolerance ?? DEFAULT_FINGERPRINT_TOLERANCE;
+                    this.machineFingerprint = reconcileFingerprint(current, stored, tolerance);
+                    return options?.override
+                        ? await options.override(this.machineFingerprint)
+                        : this.machineFingerprint.id;
+                } catch {
+                    // Validation works without a fingerprint; the server decides whether it requires one.
+                    return null;
+                }
+            })();
+        }
+
+        return this.fingerprintId;
+    }
+
+    private async request<T>(
+        path: string,
+        data: object,
+        validateResponse?: (data: unknown) => void
+    ): Promise<TransportResponse<T>> {
+        const response = await withRetry(
+            (_attempt, remaining) => this.post<T>(path, data, remaining, validateResponse),
+            this.retryOptions,
+            (error, attempt, delay) => {
+                this.logger.warn('Retrying license server request', {
+                    ...this.logContext(),
+                    path,
+                    attempt,
+                    delay,
+                    error,
+                });
+                emitMetric(this.config.metrics, 'retry', path, attempt, error);
+            }
+        );
+        this.trackServerTime(response.headers?.date);
+        return response;
+    }
+
+    private trackServerTime(dateHeader: string | undefined): void {
+        const serverTime = dateHeader ? Date.parse(dateHeader) : NaN;
+        if (Number.isNaN(serverTime)) {
+            return;
+        }
+
+        const offset = serverTime - this.config.clock.now();
+        this.clockOffset = Math.abs(offset) < MIN_CLOCK_OFFSET ? 0 : offset;
+    }
+
+    /**
+     * Current time corrected by the offset to the server clock, for comparisons with server timestamps.
+     */
+    private serverNow(now: number): number {
+        return now + (this.clockOffset ?? 0);
+    }
+
+    /**
+     * Latest local time seen by this agent or recorded in the cache. Offline durations are measured up to it,
+     * so they never shrink; a clock held just behind it stalls them, by at most the tolerance per step.
+     */
+    private latestSeen(cache: CacheEntry | null): number {
+        return Math.max(this.lastSeenAt, cache?.timestamp ?? 0, cache?.lastSeenAt ?? 0);
     }
 
-    public clearCache(): void {
-        this.cache = null;
+    private isClockRolledBack(now: number, cache: CacheEntry | null): boolean {
+        return now < this.latestSeen(cache) - this.config.clockRollbackTolerance;
+    }
+
+    private async recordLastSeen(cache: CacheEntry, now: number): Promise<void> {
+        if (now <= (cache.lastSeenAt ?? cache.timestamp)) {
+            return;
+        }
+
+        try {
+            await this.config.cacheStore.set(this.cacheKey, { ...cache, lastSeenAt: now });
+        } catch {
+            // Without it a restart may miss a rollback, but offline validation still works.
+        }
+    }
+
+    private withEnforcement<T extends ValidationResult>(result: T, now = this.config.clock.now()): T {
+        const enforcement = resolveEnforcement(result, this.config.enforcement, {
+            now,
+            serverNow: this.serverNow(now),
+        });
+        return { ...result, enforcement };
+    }
+
+    private enforceExpiry(result: ValidationResult, now: number): ValidationResult {
+        if (!result.isValid || !result.expiresAt) {
+            return result;
+        }
+
+        const remaining = result.expiresAt.getTime() - this.serverNow(now);
+        if (remaining <= 0) {
+            return { ...result, isValid: false, isGracePeriod: false, reason: 'expired' };
+        }
+        if (remaining <= this.config.expiringSoonWindow && (!result.reason || result.reason === 'valid')) {
+            return { ...result, reason: 'expiring_soon' };
+        }
+        return result;
+    }
+
+    private async post<T>(
+        path: string,
+        data: object,
+        remaining: number,
+        validateResponse?: (data: unknown) => void
+    ) {
+        const startedAt = Date.now();
+        try {
+            // Only shorten the attempt when the retry deadline is closer than the regular request timeout.
+            const options: TransportRequestOptions = { validateResponse };
+            if (remaining < this.config.requestTimeout) {
+                options.timeout = Math.max(1, Math.floor(remaining));
+            }
+            const response = await this.transport.post<T>(path, data, options);
+            this.recordRequest(path, startedAt, 'success');
+            return response;
+        } catch (error) {
+            this.recordRequest(path, startedAt, 'error', error);
+            throw error;
+        }
+    }
+
+    private recordRequest(path: string, startedAt: number, outcome: RequestOutcome, error?: unknown): void {
+        const durationMs = Date.now() - startedAt;
+        emitMetric(this.config.metrics, 'requestDuration', path, durationMs, outcome);
+
+        if (outcome === 'success') {
+            this.logger.debug('License server request completed', { ...this.logContext(), path, durationMs });
+        } else {
+            this.logger.warn('License server request failed', { ...this.logContext(), path, durationMs, error });
+        }
+    }
+
+    private logContext(): Record<string, unknown> {
+        return { productName: this.config.productName, licenseKey: maskLicenseKey(this.config.licenseKey) };
+    }
+
+    /**
+     * Makes a server answer or offline verdict obtained outside `validate()` the result entitlement checks read.
+     * Failed requests are not remembered, so they do not hide the entitlements of the last good result. Transition
+     * events stay with `validate()`, whose previous result is left untouched.
+     */
+    private remember(result: ValidationResult, now = this.config.clock.now()): ValidationResult {
+        this.lastResult = this.withEnforcement(this.enforceExpiry(result, now), now);
+        return this.lastResult;
+    }
+
+    private entitledResult(): ValidationResult<TEntitlements> | null {
+        const result = this.lastResult;
+        if (!result || !result.isValid) {
+            return null;
+        }
+
+        // A grace-period result stays usable only until the grace period measured from the last real check ends.
+        if (result.isGracePeriod) {
+            const checkedAt = result.lastCheckedAt?.getTime();
+            const now = Math.max(this.config.clock.now(), this.lastSeenAt);
+            if (checkedAt === undefined || now - checkedAt >= this.config.gracePeriod) {
+                return null;
+            }
+        }
+
+        return result;
+    }
+
+    private invalidSignatureResult(): ValidationResult {
+        return {
+            isValid: false,
+            reason: 'invalid_signature',
+            lastCheckedAt: new Date(this.config.clock.now()),
+            error: new SignatureVerificationError('License server response signature is invalid'),
+        };
+    }
+
+    private requestFailureResult(error: LicenseAgentError): ValidationResult {
+        if (error instanceof InvalidResponseError) {
+            this.logger.warn(error.message, { ...this.logContext(), problems: error.problems });
+            return { isValid: false, isOffline: true, reason: 'invalid_response', error };
+        }
+        if (isTransientError(error)) {
+            return { isValid: false, isOffline: true, reason: 'network_error', error };
+        }
+
+        this.logger.error('License server rejected the request', { ...this.logContext(), error });
+
+        let reason = 'bad_request';
+        if (error instanceof AuthenticationError) {
+            reason = 'authentication_failed';
+        } else if (error instanceof HttpError && error.statusCode === 409) {
+            reason = 'seat_limit_reached';
+        }
+
+        return { isValid: false, reason, lastCheckedAt: new Date(this.config.clock.now()), error };
+    }
+
+    private toResult(
+        apiResult: ValidationApiResponse,
+        lastCheckedAt: Date | null | undefined,
+        endpoint?: string | null
+    ): ValidationResult {
+        const expiresAt = apiResult.expires_at ? new Date(apiResult.expires_at) : null;
+
+        return {
+            isValid: apiResult.is_valid,
+            reason: apiResult.reason,
+            status: apiResult.status,
+            expiresAt: expiresAt,
+            allowedData: apiResult.allowed_data,
+            lastCheckedAt,
+            endpoint,
+        };
+    }
+
+    private async readCache(): Promise<CacheEntry | null> {
+        let entry: CacheEntry | null;
+        try {
+            entry = await this.config.cacheStore.get(this.cacheKey);
+        } catch {
+            // An unreadable store behaves like an empty one; validation must not fail because of it.
+            return null;
+        }
+
+        if (!entry || !this.verificationKey) {
+            return entry;
+        }
+
+        // With signing enabled the cached result is rebuilt from the signed response, so edits to it have no effect.
+        if (!entry.response || !this.isAuthentic(entry.response)) {
+            return null;
+        }
+
+        // The local check times are unsigned; the signed issue time caps them, so editing them cannot extend the
+        // cache TTL or grace period. It is converted to local time first, so a skewed clock does not shrink either.
+        const issuedAt = Date.parse(entry.response.issued_at!) - (entry.clockOffset ?? this.clockOffset ?? 0);
+        const checkedAt = Math.min(entry.result.lastCheckedAt?.getTime() ?? issuedAt, issuedAt);
+        return {
+            ...entry,
+            timestamp: Math.min(entry.timestamp, issuedAt),
+            result: this.toResult(entry.response, new Date(checkedAt), entry.result.endpoint),
+        };
+    }
+
+    private isAuthentic(response: ValidationApiResponse): boolean {
+        return (
+            !this.verificationKey ||
+            verifyResponseSignature(response, this.verificationKey, {
+                licenseKey: this.config.licenseKey,
+                productName: this.config.productName,
+            })
+        );
+    }
+
+    private async updateCache(result: ValidationResult, response?: ValidationApiResponse): Promise<void> {
+        if (!result.isOffline && !result.isGracePeriod) {
+            try {
+                await this.config.cacheStore.set(this.cacheKey, {
+                    result: { ...result, error: undefined },
+                    timestamp: this.config.clock.now(),
+                    response,
+                    fingerprint: this.machineFingerprint ?? undefined,
+                    clockOffset: this.clockOffset ?? undefined,
+                });
+            } catch {
+                // A failed write only costs us the cached result; the fresh result is still returned.
+            }
+        }
+    }
+
+    /**
+     * Removes the cached validation result from the configured cache store.
+     */
+    public async clearCache(): Promise<void> {
+        await this.config.cacheStore.delete(this.cacheKey);
     }
 }
 
 export * from './types';
 export * from './errors';
+export * from './cache';
+export * from './signature';
+export * from './events';
+export * from './middleware';
+export * from './pool';
+export { PrometheusExporter, createConsoleLogger, createRedactingLogger, maskLicenseKey } from './observability';
+export type { PrometheusExporterOptions } from './observability';
+export { CONFIG_ENV_VARIABLES, configFromEnv, loadConfigFile, validateConfig, redactConfig } from './config';
+export type { FileConfig } from './config';
+export { AxiosTransport, FetchTransport, ScriptedTransport, FailoverTransport } from './transport';
+export type {
+    FetchTransportOptions,
+    ScriptedReply,
+    ScriptedHandler,
+    ScriptedRequest,
+    FailoverEndpoint,
+    FailoverTransportOptions,
+} from './transport';
+export { generateFingerprint, detectContainer, DEFAULT_FINGERPRINT_COMPONENTS } from './fingerprint';
+export { parseValidationResponse, parseActivationResponse } from './response';
+export { ENFORCEMENT_LEVELS, matchesRule, resolveEnforcement, validateEnforcementPolicy } from './policy';
+export type { EnforcementContext } from './policy';
+export { isRetryableError, parseRetryAfter } from './retry';
@@ -0,0 +1,187 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { LicenseAgent } from './index';
+import { EnforcementLevel, FeatureName, ValidationResult } from './types';
+import { grantsFeature } from './entitlements';
+import { DEFAULT_ALLOWED_LEVELS } from './policy';
+
+export type LicenseDenialKind =
+    'license_invalid' | 'license_unavailable' | 'license_restricted' | 'feature_not_entitled';
+
+export interface LicenseDenial {
+    kind: LicenseDenialKind;
+    reason?: string | null;
+    /** The first required feature the license does not grant. */
+    feature?: string;
+    /** The enforcement level that is not allowed, for `license_restricted`. */
+    level?: EnforcementLevel;
+}
+
+export interface LicenseRequestContext<TEntitlements = any> {
+    result: ValidationResult<TEntitlements>;
+    /** Why the request would be blocked, or null if the license allows it. */
+    denial: LicenseDenial | null;
+}
+
+export interface LicenseGuardOptions<TEntitlements = any> {
+    /** `block` answers denied requests itself; `degrade` passes them on with `denial` set. Defaults to `block`. */
+    mode?: 'block' | 'degrade';
+    /** Features the route requires in addition to a valid license. */
+    features?: FeatureName<TEntitlements>[];
+    /** Enforcement levels the route accepts. Defaults to all but `blocked`; use `['full']` for write routes. */
+    levels?: readonly EnforcementLevel[];
+    /** Status codes for denied requests. Defaults to 403, 503, 403 and 403. */
+    statusCodes?: Partial<Record<LicenseDenialKind, number>>;
+    /** Builds the JSON body of a denied response. */
+    body?: (denial: LicenseDenial, result: ValidationResult<TEntitlements>) => unknown;
+}
+
+export type LicensedRequest<TEntitlements = any> = { license?: LicenseRequestContext<TEntitlements> };
+
+type ValidatingAgent<TEntitlements = any> = Pick<LicenseAgent<TEntitlements>, 'validate'>;
+
+const DEFAULT_STATUS_CODES: Record<LicenseDenialKind, number> = {
+    license_invalid: 403,
+    license_unavailable: 503,
+    license_restricted: 403,
+    feature_not_entitled: 403,
+};
+
+const defaultBody = (denial: LicenseDenial) => ({
+    error: denial.kind,
+    reason: denial.reason ?? null,
+    ...(denial.feature ? { feature: denial.feature } : {}),
+    ...(denial.level ? { level: denial.level } : {}),
+});
+
+function findDenial(
+    result: ValidationResult,
+    features: readonly string[],
+    levels: readonly EnforcementLevel[]
+): LicenseDenial | null {
+    const level = result.enforcement ?? (result.isValid ? 'full' : 'blocked');
+    if (!levels.includes(level)) {
+        if (result.isValid || level !== 'blocked') {
+            return { kind: 'license_restricted', reason: result.reason, level };
+        }
+        // Without any usable result the server could not be asked; that is an outage, not a license problem.
+        const kind = result.isOffline && !result.lastCheckedAt ? 'license_unavailable' : 'license_invalid';
+        return { kind, reason: result.reason };
+    }
+
+    const feature = features.find((name) => !grantsFeature(result.allowedData, name));
+    return feature ? { kind: 'feature_not_entitled', reason: 'feature_not_entitled', feature } : null;
+}
+
+/**
+ * Validates the license for one request. `agent.validate()` serves cached results, so this only reaches
+ * the server when the cache has expired; run `agent.start()` to keep it warm.
+ */
+export async function evaluateLicense<TEntitlements = any>(
+    agent: ValidatingAgent<TEntitlements>,
+    features: FeatureName<TEntitlements>[] = [],
+    levels: readonly EnforcementLevel[] = DEFAULT_ALLOWED_LEVELS
+): Promise<LicenseRequestContext<TEntitlements>> {
+    const result = await agent.validate();
+    return { result, denial: findDenial(result, features, levels) };
+}
+
+function denialResponse<TEntitlements>(
+    context: LicenseRequestContext<TEntitlements>,
+    options: LicenseGuardOptions<TEntitlements>
+) {
+    const denial = context.denial!;
+    const statusCode = options.statusCodes?.[denial.kind] ?? DEFAULT_STATUS_CODES[denial.kind];
+    const body = (options.body ?? defaultBody)(denial, context.result);
+    return { statusCode, body };
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    res.statusCode = statusCode;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Express/Connect middleware. Sets `req.license` and, in `block` mode, answers denied requests with JSON.
+ */
+export function createExpressMiddleware<TEntitlements = any>(
+    agent: ValidatingAgent<TEntitlements>,
+    options: LicenseGuardOptions<TEntitlements> = {}
+) {
+    return (
+        req: IncomingMessage & LicensedRequest<TEntitlements>,
+        res: ServerResponse,
+        next: (error?: unknown) => void
+    ): void => {
+        evaluateLicense(agent, options.features, options.levels)
+            .then((context) => {
+                req.license = context;
+                if (context.denial && options.mode !== 'degrade') {
+                    const { statusCode, body } = denialResponse(context, options);
+                    sendJson(res, statusCode, body);
+                    return;
+                }
+                next();
+            })
+            .catch(next);
+    };
+}
+
+interface FastifyReplyLike {
+    code(statusCode: number): FastifyReplyLike;
+    send(payload?: unknown): FastifyReplyLike;
+}
+
+/**
+ * Fastify `preHandler` hook. Sets `request.license` (declare it with `fastify.decorateRequest('license', null)`)
+ * and, in `block` mode, replies to denied requests with JSON.
+ */
+export function createFastifyHook<TEntitlements = any>(
+    agent: ValidatingAgent<TEntitlements>,
+    options: LicenseGuardOptions<TEntitlements> = {}
+) {
+    return async (request: LicensedRequest<TEntitlements>, reply: FastifyReplyLike): Promise<void> => {
+        const context = await evaluateLicense(agent, options.features, options.levels);
+        request.license = context;
+
+        if (context.denial && options.mode !== 'degrade') {
+            const { statusCode, body } = denialResponse(context, options);
+            reply.code(statusCode).send(body);
+        }
+    };
+}
+
+/**
+ * Wraps a plain `node:http` request listener. Sets `req.license` and, in `block` mode, answers denied requests
+ * without calling `handler`. Errors thrown while validating, and errors thrown or rejected by `handler` before it
+ * has sent headers, result in a 500 response.
+ */
+export function withLicense<TEntitlements = any>(
+    agent: ValidatingAgent<TEntitlements>,
+    handler: (req: IncomingMessage & LicensedRequest<TEntitlements>, res: ServerResponse) => unknown,
+    options: LicenseGuardOptions<TEntitlements> = {}
+) {
+    return (req: IncomingMessage & LicensedRequest<TEntitlements>, res: ServerResponse): void => {
+        evaluateLicense(agent, options.features, options.levels)
+            .then(
+                async (context) => {
+                    req.license = context;
+                    if (context.denial && options.mode !== 'degrade') {
+                        const { statusCode, body } = denialResponse(context, options);
+                        sendJson(res, statusCode, body);
+                        return;
+                    }
+                    await handler(req, res);
+                },
+                () => sendJson(res, 500, { error: 'license_check_failed' })
+            )
+            .catch(() => {
+                // The handler failed; answer if it has not, so the client is not left waiting.
+                if (!res.headersSent) {
+                    sendJson(res, 500, { error: 'internal_error' });
+                } else if (!res.writableEnded) {
+                    res.end();
+                }
+            });
+    };
+}
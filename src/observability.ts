@@ -0,0 +1,237 @@
+import { Logger, LogLevel, MetricsHooks, RequestOutcome, ValidationResult } from './types';
+
+const REDACTED = '[REDACTED]';
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/** Logger used when none is configured: the agent stays silent. */
+export const noopLogger: Logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+};
+
+/**
+ * Logger writing to the console, dropping messages below `level`.
+ * @param level Minimum level written. Defaults to `info`.
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): Logger {
+    const minimum = LOG_LEVELS.indexOf(level);
+    const write =
+        (messageLevel: LogLevel) =>
+        (message: string, context?: Record<string, unknown>): void => {
+            if (LOG_LEVELS.indexOf(messageLevel) >= minimum) {
+                console[messageLevel](`[license-agent] ${message}`, ...(context ? [context] : []));
+            }
+        };
+
+    return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+/**
+ * Shortens a license key to its last four characters, enough to tell licenses apart in logs.
+ */
+export function maskLicenseKey(licenseKey: string): string {
+    return licenseKey.length > 8 ? `****${licenseKey.slice(-4)}` : '****';
+}
+
+function redactValue(value: unknown, secrets: string[], seen: Set<unknown>): unknown {
+    if (typeof value === 'string') {
+        return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value);
+    }
+    if (value instanceof Error) {
+        return { name: value.name, message: redactValue(value.message, secrets, seen) };
+    }
+    if (value instanceof Date || !value || typeof value !== 'object' || seen.has(value)) {
+        return value;
+    }
+
+    seen.add(value);
+    if (Array.isArray(value)) {
+        return value.map((item) => redactValue(item, secrets, seen));
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item, secrets, seen)]));
+}
+
+/**
+ * Wraps a logger so the given secrets (the API key and license key) never reach it, wherever they appear
+ * in the message or context. Errors in the context are reduced to their name and message.
+ */
+export function createRedactingLogger(logger: Logger, secrets: string[]): Logger {
+    const words = secrets.filter((secret) => secret.length > 0);
+    const wrap =
+        (level: LogLevel) =>
+        (message: string, context?: Record<string, unknown>): void => {
+            try {
+                logger[level](
+                    redactValue(message, words, new Set()) as string,
+                    context && (redactValue(context, words, new Set()) as Record<string, unknown>)
+                );
+            } catch {
+                // A failing logger must not break license validation.
+            }
+        };
+
+    return { debug: wrap('debug'), info: wrap('info'), warn: wrap('warn'), error: wrap('error') };
+}
+
+/**
+ * Calls a metrics hook, ignoring hooks that are not implemented or throw.
+ */
+export function emitMetric<K extends keyof MetricsHooks>(
+    hooks: MetricsHooks | undefined,
+    name: K,
+    ...args: Parameters<NonNullable<MetricsHooks[K]>>
+): void {
+    const hook = hooks?.[name] as ((...hookArgs: typeof args) => void) | undefined;
+    if (!hook) {
+        return;
+    }
+
+    try {
+        hook.apply(hooks, args);
+    } catch {
+        // Metrics are best effort.
+    }
+}
+
+export interface PrometheusExporterOptions {
+    /** Prefix of every metric name. Defaults to `license_agent`. */
+    prefix?: string;
+    /** Labels added to every sample, e.g. `{ service: 'billing' }`. */
+    labels?: Record<string, string>;
+    /** Upper bounds of the request duration histogram, in seconds. */
+    durationBuckets?: number[];
+}
+
+interface Histogram {
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+const DEFAULT_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+/**
+ * Metrics hooks that keep counters in memory and render them in the Prometheus text exposition format.
+ * Pass it as `metrics` and serve `exporter.metrics()` with `exporter.contentType` from your metrics endpoint.
+ */
+export class PrometheusExporter implements MetricsHooks {
+    public readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+    private prefix: string;
+    private labels: Record<string, string>;
+    private durationBuckets: number[];
+    private validations = new Map<string, number>();
+    private cacheHits = 0;
+    private cacheMisses = 0;
+    private retries = new Map<string, number>();
+    private gracePeriodEntries = 0;
+    private durations = new Map<string, Histogram>();
+
+    constructor(options: PrometheusExporterOptions = {}) {
+        this.prefix = options.prefix ?? 'license_agent';
+        this.labels = options.labels ?? {};
+        this.durationBuckets = [...(options.durationBuckets ?? DEFAULT_DURATION_BUCKETS)].sort((a, b) => a - b);
+    }
+
+    public validation(result: ValidationResult): void {
+        const reason = result.reason ?? (result.isValid ? 'valid' : 'unknown');
+        this.validations.set(reason, (this.validations.get(reason) ?? 0) + 1);
+    }
+
+    public cacheHit(): void {
+        this.cacheHits++;
+    }
+
+    public cacheMiss(): void {
+        this.cacheMisses++;
+    }
+
+    public requestDuration(path: string, durationMs: number, outcome: RequestOutcome): void {
+        const key = JSON.stringify([path, outcome]);
+        const histogram = this.durations.get(key) ?? {
+            buckets: this.durationBuckets.map(() => 0),
+            sum: 0,
+            count: 0,
+        };
+        const seconds = durationMs / 1000;
+
+        this.durationBuckets.forEach((bound, index) => {
+            if (seconds <= bound) {
+                histogram.buckets[index]++;
+            }
+        });
+        histogram.sum += seconds;
+        histogram.count++;
+        this.durations.set(key, histogram);
+    }
+
+    public retry(path: string): void {
+        this.retries.set(path, (this.retries.get(path) ?? 0) + 1);
+    }
+
+    public gracePeriodEntered(): void {
+        this.gracePeriodEntries++;
+    }
+
+    /** Renders all metrics in the Prometheus text format. */
+    public metrics(): string {
+        const lines: string[] = [];
+        const name = (suffix: string) => `${this.prefix}_${suffix}`;
+        const header = (metric: string, type: string, help: string) =>
+            lines.push(`# HELP ${metric} ${help}`, `# TYPE ${metric} ${type}`);
+
+        header(name('validations_total'), 'counter', 'License validations by result reason.');
+        for (const [reason, count] of this.validations) {
+            lines.push(`${name('validations_total')}${this.format({ reason })} ${count}`);
+        }
+
+        header(name('cache_hits_total'), 'counter', 'Validations answered from the cache.');
+        lines.push(`${name('cache_hits_total')}${this.format({})} ${this.cacheHits}`);
+        header(name('cache_misses_total'), 'counter', 'Validations that needed a license server request.');
+        lines.push(`${name('cache_misses_total')}${this.format({})} ${this.cacheMisses}`);
+
+        const duration = name('request_duration_seconds');
+        header(duration, 'histogram', 'Duration of license server requests, per attempt.');
+        for (const [key, histogram] of this.durations) {
+            const [path, outcome] = JSON.parse(key) as [string, string];
+            this.durationBuckets.forEach((bound, index) => {
+                const labels = this.format({ path, outcome, le: String(bound) });
+                lines.push(`${duration}_bucket${labels} ${histogram.buckets[index]}`);
+            });
+            lines.push(`${duration}_bucket${this.format({ path, outcome, le: '+Inf' })} ${histogram.count}`);
+            lines.push(`${duration}_sum${this.format({ path, outcome })} ${histogram.sum}`);
+            lines.push(`${duration}_count${this.format({ path, outcome })} ${histogram.count}`);
+        }
+
+        header(name('retries_total'), 'counter', 'Retried license server requests.');
+        for (const [path, count] of this.retries) {
+            lines.push(`${name('retries_total')}${this.format({ path })} ${count}`);
+        }
+
+        header(name('grace_period_entries_total'), 'counter', 'Times the license entered the grace period.');
+        lines.push(`${name('grace_period_entries_total')}${this.format({})} ${this.gracePeriodEntries}`);
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    /** Clears all collected values. */
+    public reset(): void {
+        this.validations.clear();
+        this.retries.clear();
+        this.durations.clear();
+        this.cacheHits = 0;
+        this.cacheMisses = 0;
+        this.gracePeriodEntries = 0;
+    }
+
+    private format(labels: Record<string, string>): string {
+        const entries = Object.entries({ ...this.labels, ...labels });
+        if (entries.length === 0) {
+            return '';
+        }
+        return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+    }
+}
@@ -0,0 +1,123 @@
+import { EnforcementLevel, EnforcementPolicy, EnforcementRule, ValidationResult } from './types';
+import { ConfigProblem } from './errors';
+
+export const ENFORCEMENT_LEVELS: readonly EnforcementLevel[] = ['full', 'read_only', 'limited', 'blocked'];
+
+/** Levels `checkOrThrow()` and the middleware accept unless told otherwise. */
+export const DEFAULT_ALLOWED_LEVELS: readonly EnforcementLevel[] = ['full', 'read_only', 'limited'];
+
+export interface EnforcementContext {
+    /** Local time, compared with `lastCheckedAt` for the offline duration. */
+    now: number;
+    /** Server time, compared with `expiresAt`. Defaults to `now`. */
+    serverNow?: number;
+}
+
+function offlineDuration(result: ValidationResult, now: number): number {
+    if (!result.isOffline) {
+        return 0;
+    }
+    // A result that never had a server answer has been offline for as long as we know.
+    return result.lastCheckedAt ? now - result.lastCheckedAt.getTime() : Infinity;
+}
+
+/**
+ * Whether every condition of a rule holds for the result.
+ */
+export function matchesRule(rule: EnforcementRule, result: ValidationResult, context: EnforcementContext): boolean {
+    if (rule.valid !== undefined && rule.valid !== result.isValid) {
+        return false;
+    }
+    if (rule.status && !rule.status.includes(result.status ?? null)) {
+        return false;
+    }
+    if (rule.reason && !rule.reason.includes(result.reason ?? null)) {
+        return false;
+    }
+    if (rule.offline !== undefined && rule.offline !== !!result.isOffline) {
+        return false;
+    }
+    if (
+        rule.offlineFor !== undefined &&
+        !(result.isOffline && offlineDuration(result, context.now) >= rule.offlineFor)
+    ) {
+        return false;
+    }
+    if (rule.expiresWithin !== undefined) {
+        const expiresIn = result.expiresAt ? result.expiresAt.getTime() - (context.serverNow ?? context.now) : null;
+        if (expiresIn === null || expiresIn > rule.expiresWithin) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Picks the enforcement level of a result: the level of the first matching rule, or the policy default.
+ * Without a policy, valid results (including the grace period) get `full` and all others `blocked`.
+ */
+export function resolveEnforcement(
+    result: ValidationResult,
+    policy: EnforcementPolicy | undefined,
+    context: EnforcementContext
+): EnforcementLevel {
+    const fallback: EnforcementLevel = result.isValid ? 'full' : 'blocked';
+    if (!policy) {
+        return fallback;
+    }
+
+    const rule = policy.rules.find((candidate) => matchesRule(candidate, result, context));
+    return rule?.level ?? policy.default ?? fallback;
+}
+
+/**
+ * Lists the problems of an enforcement policy, reported by `validateConfig` under the `enforcement` field.
+ */
+export function validateEnforcementPolicy(policy: unknown): ConfigProblem[] {
+    const problem = (message: string): ConfigProblem => ({ field: 'enforcement', message });
+    if (!policy || typeof policy !== 'object' || !Array.isArray((policy as EnforcementPolicy).rules)) {
+        return [problem('enforcement must be an object with a rules array')];
+    }
+
+    const { rules, default: fallback } = policy as EnforcementPolicy;
+    const problems: ConfigProblem[] = [];
+    const isLevel = (level: unknown) => ENFORCEMENT_LEVELS.includes(level as EnforcementLevel);
+    const levels = ENFORCEMENT_LEVELS.join(', ');
+
+    if (fallback !== undefined && !isLevel(fallback)) {
+        problems.push(problem(`enforcement.default must be one of ${levels}`));
+    }
+    rules.forEach((rule, index) => {
+        const prefix = `enforcement.rules[${index}]`;
+        if (!rule || typeof rule !== 'object') {
+            problems.push(problem(`${prefix} must be an object`));
+            return;
+        }
+
+        if (!isLevel(rule.level)) {
+            problems.push(problem(`${prefix}.level must be one of ${levels}`));
+        }
+        for (const field of ['valid', 'offline'] as const) {
+            if (rule[field] !== undefined && typeof rule[field] !== 'boolean') {
+                problems.push(problem(`${prefix}.${field} must be a boolean`));
+            }
+        }
+        for (const field of ['status', 'reason'] as const) {
+            const value = rule[field];
+            if (
+                value !== undefined &&
+                !(Array.isArray(value) && value.every((item) => item === null || typeof item === 'string'))
+            ) {
+                problems.push(problem(`${prefix}.${field} must be an array of strings or null`));
+            }
+        }
+        for (const field of ['offlineFor', 'expiresWithin'] as const) {
+            const value = rule[field];
+            if (value !== undefined && (typeof value !== 'number' || Number.isNaN(value))) {
+                problems.push(problem(`${prefix}.${field} must be a number`));
+            }
+        }
+    });
+
+    return problems;
+}
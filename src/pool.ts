@@ -0,0 +1,206 @@
+import { LicenseAgent } from './index';
+import { LicenseAgentConfig, Transport, ValidationRequestPayload, ValidationResult } from './types';
+import { InvalidConfigError } from './errors';
+import { LruCacheStore, MemoryUsageStore } from './cache';
+import { createDefaultTransport } from './transport';
+import { TypedEventEmitter } from './events';
+import { redactConfig } from './config';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+const DEFAULT_BATCH_CONCURRENCY = 10;
+
+export interface LicenseAgentPoolConfig extends Omit<LicenseAgentConfig, 'licenseKey' | 'productName'> {
+    /** Product used when a license is looked up without an explicit product name. */
+    productName?: string;
+    /** Maximum number of licenses whose agent is kept. Defaults to 1000; the default cache store holds twice that. */
+    maxEntries?: number;
+}
+
+export interface LicenseRef {
+    licenseKey: string;
+    productName?: string;
+    payload?: ValidationRequestPayload;
+}
+
+export interface PoolValidationResult<TEntitlements = any> {
+    licenseKey: string;
+    productName: string;
+    result: ValidationResult<TEntitlements>;
+}
+
+export interface PoolBatchSummary<TEntitlements = any> {
+    results: PoolValidationResult<TEntitlements>[];
+    valid: number;
+    invalid: number;
+    gracePeriod: number;
+    offline: number;
+}
+
+export interface LicenseAgentPoolEvents {
+    /** Emitted for every validation made through the pool. */
+    result: [result: PoolValidationResult];
+    /** Emitted once a `validateMany()` batch has finished. */
+    batch: [summary: PoolBatchSummary];
+}
+
+/**
+ * Validates many licenses (e.g. one per tenant) over a single transport.
+ * Each license key and product gets its own `LicenseAgent`, so cache TTL and grace period work exactly as for a
+ * standalone agent; agents beyond `maxEntries` are evicted least recently used first, while their cached results stay
+ * in the cache store.
+ */
+export class LicenseAgentPool<TEntitlements = any> extends TypedEventEmitter<LicenseAgentPoolEvents> {
+    public config: LicenseAgentPoolConfig;
+    private transport: Transport;
+    private cacheStore: LruCacheStore | NonNullable<LicenseAgentConfig['cacheStore']>;
+    private usageStore: NonNullable<LicenseAgentConfig['usageStore']>;
+    private agents = new Map<string, LicenseAgent<TEntitlements>>();
+    private maxEntries: number;
+
+    constructor(config: LicenseAgentPoolConfig) {
+        super();
+
+        if (!config.serverUrl || !config.apiKey) {
+            throw new InvalidConfigError('serverUrl and apiKey are required');
+        }
+
+        this.config = { ...config };
+        // Keeps the API key out of logs that serialize the config.
+        Object.defineProperty(this.config, 'toJSON', { value: () => redactConfig(this.config), enumerable: false });
+        this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+        if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+            throw new InvalidConfigError('maxEntries must be a positive integer');
+        }
+        // Each license may also keep its activation id in the cache store.
+        this.cacheStore = config.cacheStore ?? new LruCacheStore(2 * this.maxEntries);
+        // Shared and never evicted, so an evicted agent's unsent usage is picked up when the license is seen again.
+        this.usageStore = config.usageStore ?? new MemoryUsageStore();
+        this.transport =
+            config.transport ??
+            createDefaultTransport(
+                {
+                    serverUrl: config.serverUrl,
+                    apiKey: config.apiKey,
+                    requestTimeout: config.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT,
+                },
+                { ...config.failover, clock: config.clock }
+            );
+    }
+
+    /**
+     * Returns the config with the API key redacted, so logging the pool does not leak it.
+     */
+    public toJSON(): Record<string, unknown> {
+        return redactConfig(this.config);
+    }
+
+    public get size(): number {
+        return this.agents.size;
+    }
+
+    /**
+     * Returns the agent for a license, creating it on first use.
+     * @throws {InvalidConfigError} If neither `productName` nor the pool's default product is given.
+     */
+    public get(licenseKey: string, productName?: string): LicenseAgent<TEntitlements> {
+        const product = productName ?? this.config.productName;
+        if (!licenseKey || !product) {
+            throw new InvalidConfigError('licenseKey and productName are required');
+        }
+
+        const key = `${product}:${licenseKey}`;
+        let agent = this.agents.get(key);
+
+        if (agent) {
+            this.agents.delete(key);
+        } else {
+            const { maxEntries, ...agentConfig } = this.config;
+            agent = new LicenseAgent<TEntitlements>({
+                ...agentConfig,
+                licenseKey,
+                productName: product,
+                cacheStore: this.cacheStore,
+                usageStore: this.usageStore,
+                transport: this.transport,
+            });
+        }
+        this.agents.set(key, agent);
+
+        while (this.agents.size > this.maxEntries) {
+            const [oldestKey, oldest] = this.agents.entries().next().value as [string, LicenseAgent<TEntitlements>];
+            this.agents.delete(oldestKey);
+            // The cached result stays in the store, so the license keeps its grace period when it is seen again.
+            oldest.destroy().catch(() => undefined);
+        }
+
+        return agent;
+    }
+
+    /**
+     * Validates a single license through its pooled agent.
+     */
+    public async validate(license: LicenseRef): Promise<PoolValidationResult<TEntitlements>> {
+        const agent = this.get(license.licenseKey, license.productName);
+        const result = await agent.validate(license.payload);
+        const entry = { licenseKey: license.licenseKey, productName: agent.config.productName, result };
+
+        this.emit('result', entry);
+        return entry;
+    }
+
+    /**
+     * Validates several licenses with bounded concurrency and emits a `batch` summary.
+     * @param licenses Licenses to validate; results keep the same order.
+     * @param concurrency Maximum number of validations in progress at once. Defaults to 10.
+     */
+    public async validateMany(
+        licenses: LicenseRef[],
+        concurrency: number = DEFAULT_BATCH_CONCURRENCY
+    ): Promise<PoolBatchSummary<TEntitlements>> {
+        const results: PoolValidationResult<TEntitlements>[] = new Array(licenses.length);
+        let next = 0;
+
+        const worker = async () => {
+            while (next < licenses.length) {
+                const index = next++;
+                results[index] = await this.validate(licenses[index]);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, licenses.length)) }, worker));
+
+        const summary: PoolBatchSummary<TEntitlements> = {
+            results,
+            valid: results.filter(({ result }) => result.isValid).length,
+            invalid: results.filter(({ result }) => !result.isValid).length,
+            gracePeriod: results.filter(({ result }) => result.isGracePeriod).length,
+            offline: results.filter(({ result }) => result.isOffline).length,
+        };
+
+        this.emit('batch', summary);
+        return summary;
+    }
+
+    /**
+     * Drops the agent and cached result of a license.
+     */
+    public async delete(licenseKey: string, productName?: string): Promise<void> {
+        const product = productName ?? this.config.productName;
+        const key = `${product}:${licenseKey}`;
+        const agent = this.agents.get(key);
+
+        if (agent) {
+            this.agents.delete(key);
+            await agent.destroy({ clearCache: true });
+        } else {
+            await this.cacheStore.delete(key);
+        }
+    }
+
+    /**
+     * Stops background work of every pooled agent.
+     */
+    public async stop(): Promise<void> {
+        await Promise.all([...this.agents.values()].map((agent) => agent.stop()));
+    }
+}
@@ -0,0 +1,74 @@
+import { ActivationApiResponse, ValidationApiResponse } from './types';
+import { InvalidResponseError } from './errors';
+
+type Check = (value: unknown) => boolean;
+
+const isOptional =
+    (check: Check): Check =>
+    (value) =>
+        value === undefined || value === null || check(value);
+
+const isString: Check = (value) => typeof value === 'string';
+const isDate: Check = (value) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+const isObject: Check = (value) => typeof value === 'object' && value !== null;
+
+const VALIDATION_FIELDS: Record<string, [Check, string]> = {
+    is_valid: [(value) => typeof value === 'boolean', 'must be a boolean'],
+    status: [isOptional(isString), 'must be a string or null'],
+    reason: [isOptional(isString), 'must be a string or null'],
+    expires_at: [isOptional(isDate), 'must be an ISO date or null'],
+    allowed_data: [isOptional(isObject), 'must be an object or null'],
+    license_key: [isOptional(isString), 'must be a string or null'],
+    product_name: [isOptional(isString), 'must be a string or null'],
+    issued_at: [isOptional(isDate), 'must be an ISO date or null'],
+    signature: [isOptional(isString), 'must be a string or null'],
+};
+
+const ACTIVATION_FIELDS: Record<string, [Check, string]> = {
+    ...VALIDATION_FIELDS,
+    activation_id: [isOptional(isString), 'must be a string or null'],
+};
+
+function describe(data: unknown): string {
+    if (typeof data === 'string') {
+        return data.trimStart().startsWith('<') ? 'an HTML page' : 'text';
+    }
+    return data === null ? 'null' : Array.isArray(data) ? 'an array' : typeof data;
+}
+
+function parse<T>(data: unknown, fields: Record<string, [Check, string]>): T {
+    if (!isObject(data) || Array.isArray(data)) {
+        throw new InvalidResponseError(
+            `Expected a JSON object from the license server, got ${describe(data)}`,
+            [],
+            data
+        );
+    }
+
+    const problems = Object.entries(fields)
+        .filter(([field, [check]]) => !check((data as Record<string, unknown>)[field]))
+        .map(([field, [, message]]) => `${field} ${message}`);
+    if (problems.length > 0) {
+        throw new InvalidResponseError(`Invalid license server response: ${problems.join('; ')}`, problems, data);
+    }
+
+    // Returned as received: fields added by newer servers stay covered by the signature.
+    return data as T;
+}
+
+/**
+ * Checks the shape of a validation (or heartbeat) response. `status` and `reason` may hold values this
+ * version does not know; they are passed through unchanged and only `is_valid` decides validity.
+ * @throws {InvalidResponseError} Listing every malformed field.
+ */
+export function parseValidationResponse(data: unknown): ValidationApiResponse {
+    return parse<ValidationApiResponse>(data, VALIDATION_FIELDS);
+}
+
+/**
+ * Checks the shape of an activation response, like `parseValidationResponse` plus `activation_id`.
+ * @throws {InvalidResponseError} Listing every malformed field.
+ */
+export function parseActivationResponse(data: unknown): ActivationApiResponse {
+    return parse<ActivationApiResponse>(data, ACTIVATION_FIELDS);
+}
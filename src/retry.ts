@@ -0,0 +1,126 @@
+import { RetryOptions } from './types';
+
+export type ResolvedRetryOptions = Required<Omit<RetryOptions, 'deadline'>> & Pick<RetryOptions, 'deadline'>;
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_DELAY = 500;
+const DEFAULT_RETRY_MAX_DELAY = 5000;
+const DEFAULT_RETRY_JITTER = 0.2;
+
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRY_AFTER_STATUS_CODES = new Set([429, 503]);
+
+interface HttpLikeError {
+    /** Set on HttpError. */
+    statusCode?: number;
+    retryAfter?: number | null;
+    /** Set on raw axios errors. */
+    response?: { status?: number; headers?: Record<string, unknown> };
+}
+
+const getStatus = (error: unknown): number | undefined => {
+    const httpError = error as HttpLikeError | null;
+    return httpError?.statusCode ?? httpError?.response?.status;
+};
+
+/**
+ * Default `retry.retryOn` predicate: failures without any HTTP response (connection refused, reset,
+ * timeouts, DNS) plus 408, 429 and 5xx gateway/availability statuses.
+ */
+export function isRetryableError(error: unknown): boolean {
+    const status = getStatus(error);
+    return status === undefined || RETRYABLE_STATUS_CODES.has(status);
+}
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date.
+ * @returns Delay in milliseconds, or null if the header is absent or unparsable.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        return null;
+    }
+
+    const text = String(value).trim();
+    if (/^\d+(\.\d+)?$/.test(text)) {
+        return Math.round(parseFloat(text) * 1000);
+    }
+
+    const date = Date.parse(text);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Applies the defaults to the `retry` config. Without it every request is attempted once.
+ * Checked by `validateConfig`.
+ */
+export function resolveRetryOptions(retry?: RetryOptions): ResolvedRetryOptions {
+    return {
+        maxAttempts: retry ? (retry.maxAttempts ?? DEFAULT_RETRY_ATTEMPTS) : 1,
+        baseDelay: retry?.baseDelay ?? DEFAULT_RETRY_BASE_DELAY,
+        maxDelay: retry?.maxDelay ?? DEFAULT_RETRY_MAX_DELAY,
+        jitter: retry?.jitter ?? DEFAULT_RETRY_JITTER,
+        retryOn: retry?.retryOn ?? isRetryableError,
+        deadline: retry?.deadline,
+    };
+}
+
+export function computeBackoff(attempt: number, options: ResolvedRetryOptions): number {
+    const exponential = Math.min(options.maxDelay, options.baseDelay * 2 ** (attempt - 1));
+    return Math.round(exponential * (1 - options.jitter * Math.random()));
+}
+
+const retryAfterDelay = (error: unknown): number | null => {
+    const status = getStatus(error);
+    if (status === undefined || !RETRY_AFTER_STATUS_CODES.has(status)) {
+        return null;
+    }
+
+    const httpError = error as HttpLikeError;
+    return httpError.retryAfter ?? parseRetryAfter(httpError.response?.headers?.['retry-after']);
+};
+
+const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, ms);
+        // A pending retry must not keep the process alive on its own.
+        timer.unref?.();
+    });
+
+/**
+ * Runs `operation` until it succeeds, a non-retryable error occurs, attempts run out or the deadline passes.
+ * A `Retry-After` longer than `maxDelay` also ends the retries: waiting that long would block the caller.
+ * @param operation Receives the 1-based attempt number and the time left before the deadline (Infinity if none).
+ * @param onRetry Called before waiting for the next attempt, with the attempt that failed.
+ * @throws The last error raised by `operation`.
+ */
+export async function withRetry<T>(
+    operation: (attempt: number, remaining: number) => Promise<T>,
+    options: ResolvedRetryOptions,
+    onRetry?: (error: unknown, attempt: number, delay: number) => void
+): Promise<T> {
+    const deadlineAt = options.deadline !== undefined ? Date.now() + options.deadline : Infinity;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt, deadlineAt - Date.now());
+        } catch (error) {
+            if (attempt >= options.maxAttempts || !options.retryOn(error, attempt)) {
+                throw error;
+            }
+
+            const retryAfter = retryAfterDelay(error);
+            if (retryAfter !== null && retryAfter > options.maxDelay) {
+                throw error;
+            }
+
+            const delay = retryAfter ?? computeBackoff(attempt, options);
+            if (Date.now() + delay >= deadlineAt) {
+                throw error;
+            }
+
+            onRetry?.(error, attempt, delay);
+            await sleep(delay);
+        }
+    }
+}
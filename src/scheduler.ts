@@ -0,0 +1,104 @@
+import { RevalidationOptions, ValidationResult } from './types';
+
+export type ResolvedRevalidationOptions = Required<RevalidationOptions>;
+
+const DEFAULT_REVALIDATION_JITTER = 0.1;
+export const DEFAULT_HEARTBEAT_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Applies the defaults to `revalidation` or `heartbeat` options. Checked by `validateConfig`.
+ * @param defaultInterval Interval when none is configured; the grace period interval defaults to a quarter of it.
+ */
+export function resolveRevalidationOptions(
+    configured: RevalidationOptions | undefined,
+    defaultInterval: number
+): ResolvedRevalidationOptions {
+    const interval = configured?.interval ?? defaultInterval;
+    return {
+        interval,
+        gracePeriodInterval: configured?.gracePeriodInterval ?? interval / 4,
+        jitter: configured?.jitter ?? DEFAULT_REVALIDATION_JITTER,
+    };
+}
+
+/**
+ * Runs a validation task repeatedly on unref'd timers.
+ * Runs never overlap: the next one is scheduled only after the previous one settles.
+ */
+export class RevalidationScheduler {
+    private timer: NodeJS.Timeout | null = null;
+    private inFlight: Promise<void> | null = null;
+    private active = false;
+    /** Bumped by every start(), so a run from before a stop() never schedules into the new schedule. */
+    private generation = 0;
+
+    constructor(
+        private readonly task: () => Promise<ValidationResult>,
+        private readonly options: ResolvedRevalidationOptions
+    ) {}
+
+    public get isActive(): boolean {
+        return this.active;
+    }
+
+    /**
+     * Starts the schedule with an immediate first run. Calling it while already active is a no-op.
+     */
+    public start(): void {
+        if (this.active) {
+            return;
+        }
+
+        this.active = true;
+        this.generation++;
+        this.schedule(0, this.generation);
+    }
+
+    /**
+     * Cancels the pending run and resolves once a run that is already in progress has settled.
+     */
+    public async stop(): Promise<void> {
+        this.active = false;
+
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        await this.inFlight;
+    }
+
+    private schedule(delay: number, generation: number): void {
+        this.timer = setTimeout(() => this.run(generation), delay);
+        this.timer.unref?.();
+    }
+
+    private async run(generation: number): Promise<void> {
+        this.timer = null;
+        // A run started before a stop() and restart may still be settling.
+        await this.inFlight;
+        if (generation !== this.generation || !this.active) {
+            return;
+        }
+
+        let result: ValidationResult | undefined;
+        this.inFlight = this.task().then(
+            (value) => {
+                result = value;
+            },
+            () => undefined
+        );
+        await this.inFlight;
+        this.inFlight = null;
+
+        if (this.active && generation === this.generation) {
+            this.schedule(this.nextDelay(result), generation);
+        }
+    }
+
+    private nextDelay(result?: ValidationResult): number {
+        const base = !result || result.isOffline ? this.options.gracePeriodInterval : this.options.interval;
+        const spread = base * this.options.jitter * (Math.random() * 2 - 1);
+        return Math.max(0, Math.round(base + spread));
+    }
+}
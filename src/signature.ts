@@ -0,0 +1,175 @@
+import crypto, { KeyObject } from 'crypto';
+import { promises as fs } from 'fs';
+import { PublicKeyInput, ValidationApiResponse, OfflineLicensePayload, ValidationResult } from './types';
+import { InvalidConfigError, SignatureVerificationError } from './errors';
+
+export interface OfflineLicenseOptions {
+    publicKey: PublicKeyInput;
+    productName: string;
+    licenseKey?: string;
+    /** Time in epoch milliseconds the expiry is checked against. Defaults to now. */
+    now?: number;
+}
+
+/**
+ * Parses a PEM/DER public key or KeyObject and checks that it is an Ed25519 or RSA key.
+ * @throws {InvalidConfigError} If the key cannot be parsed or uses an unsupported algorithm.
+ */
+export function createVerificationKey(input: PublicKeyInput): KeyObject {
+    let key: KeyObject;
+    try {
+        key = input instanceof KeyObject ? input : crypto.createPublicKey(input);
+    } catch (error) {
+        throw new InvalidConfigError(`publicKey could not be parsed: ${(error as Error).message}`);
+    }
+
+    if (key.type !== 'public' || (key.asymmetricKeyType !== 'ed25519' && key.asymmetricKeyType !== 'rsa')) {
+        throw new InvalidConfigError('publicKey must be an Ed25519 or RSA public key');
+    }
+
+    return key;
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted recursively.
+ * This is the exact byte sequence the License Service signs.
+ */
+export function canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => canonicalize(item ?? null)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value)
+            .sort()
+            .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+            .map((key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value);
+}
+
+export function verifySignature(data: string, signature: string, key: KeyObject): boolean {
+    const algorithm = key.asymmetricKeyType === 'ed25519' ? null : 'sha256';
+    try {
+        return crypto.verify(algorithm, Buffer.from(data, 'utf8'), key, Buffer.from(signature, 'base64'));
+    } catch {
+        return false;
+    }
+}
+
+export interface SignedResponseSubject {
+    licenseKey: string;
+    productName: string;
+}
+
+/**
+ * Checks the `signature` field of a validation response against the remaining fields.
+ * @param subject When given, the signed `license_key` and `product_name` must match it and `issued_at` must be set,
+ *   so a response signed for one license cannot be replayed for another and its age cannot be forged.
+ */
+export function verifyResponseSignature(
+    response: ValidationApiResponse,
+    key: KeyObject,
+    subject?: SignedResponseSubject
+): boolean {
+    if (!response || typeof response.signature !== 'string') {
+        return false;
+    }
+    if (
+        subject &&
+        (response.license_key !== subject.licenseKey ||
+            response.product_name !== subject.productName ||
+            typeof response.issued_at !== 'string' ||
+            Number.isNaN(Date.parse(response.issued_at)))
+    ) {
+        return false;
+    }
+
+    const { signature, ...signed } = response;
+    return verifySignature(canonicalize(signed), signature, key);
+}
+
+/**
+ * Decodes a `<base64url payload>.<base64url signature>` offline license token.
+ * @throws {SignatureVerificationError} If the token is malformed or the signature does not match.
+ */
+export function decodeOfflineLicense(token: string, key: KeyObject): OfflineLicensePayload {
+    const parts = token.trim().split('.');
+    if (parts.length !== 2) {
+        throw new SignatureVerificationError('Offline license token is malformed');
+    }
+
+    const [encodedPayload, encodedSignature] = parts;
+    const payloadJson = Buffer.from(encodedPayload, 'base64').toString('utf8');
+    const signature = Buffer.from(encodedSignature, 'base64').toString('base64');
+
+    if (!verifySignature(payloadJson, signature, key)) {
+        throw new SignatureVerificationError('Offline license signature is invalid');
+    }
+
+    try {
+        return JSON.parse(payloadJson);
+    } catch {
+        throw new SignatureVerificationError('Offline license payload is not valid JSON');
+    }
+}
+
+/**
+ * Validates a signed offline license token without contacting the License Service.
+ * @param token The offline license token.
+ * @param options Public key and the product (and optionally license key) the token must be issued for.
+ * @returns ValidationResult with `isOffline` set.
+ */
+export function verifyOfflineLicense(token: string, options: OfflineLicenseOptions): ValidationResult {
+    const key = createVerificationKey(options.publicKey);
+    const now = options.now ?? Date.now();
+
+    let payload: OfflineLicensePayload;
+    try {
+        payload = decodeOfflineLicense(token, key);
+    } catch (error) {
+        return {
+            isValid: false,
+            isOffline: true,
+            reason: 'invalid_signature',
+            error: error as Error,
+        };
+    }
+
+    const expiresAt = payload.expires_at ? new Date(payload.expires_at) : null;
+    const result: ValidationResult = {
+        isValid: true,
+        isOffline: true,
+        reason: 'valid',
+        status: payload.status,
+        expiresAt,
+        allowedData: payload.allowed_data,
+        lastCheckedAt: new Date(now),
+    };
+
+    if (payload.product_name !== options.productName) {
+        return { ...result, isValid: false, reason: 'product_mismatch' };
+    }
+    if (options.licenseKey !== undefined && payload.license_key !== options.licenseKey) {
+        return { ...result, isValid: false, reason: 'license_mismatch' };
+    }
+    if (expiresAt && expiresAt.getTime() <= now) {
+        return { ...result, isValid: false, reason: 'expired' };
+    }
+
+    return result;
+}
+
+/**
+ * Reads an offline license token from a file and validates it.
+ * @see verifyOfflineLicense
+ */
+export async function verifyOfflineLicenseFile(
+    filePath: string,
+    options: OfflineLicenseOptions
+): Promise<ValidationResult> {
+    const token = await fs.readFile(filePath, 'utf8');
+    return verifyOfflineLicense(token, options);
+}
@@ -0,0 +1,386 @@
+import http, { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+import crypto, { KeyObject } from 'crypto';
+import { AddressInfo } from 'net';
+import { Clock, LicenseAgentConfig, ValidationApiResponse } from './types';
+import { canonicalize } from './signature';
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_API_KEY = 'test_api_key';
+const DEFAULT_LICENSE_KEY = 'TEST-LICENSE-KEY';
+const DEFAULT_PRODUCT_NAME = 'TestProduct';
+
+function stringField(body: MockRequestBody, name: string): string | undefined {
+    const value = body[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Clock that only moves when told to. Share it between a MockLicenseServer and the agent under test
+ * to step over cache TTL, grace period and expiry boundaries without waiting.
+ */
+export class ManualClock implements Clock {
+    private current: number;
+
+    constructor(start: Date | number = Date.now()) {
+        this.current = typeof start === 'number' ? start : start.getTime();
+    }
+
+    public now(): number {
+        return this.current;
+    }
+
+    /** Moves the clock forward and returns the new time. */
+    public advance(ms: number): number {
+        this.current += ms;
+        return this.current;
+    }
+
+    public set(time: Date | number): void {
+        this.current = typeof time === 'number' ? time : time.getTime();
+    }
+}
+
+/**
+ * What the mock server answers for a license:
+ * - `valid`, `expired`, `revoked`, `not_found`: a regular validation response with that outcome;
+ * - `server_error`: HTTP 500 (or `statusCode`);
+ * - `drop_connection`: the socket is destroyed without a response.
+ */
+export type MockScenario = 'valid' | 'expired' | 'revoked' | 'not_found' | 'server_error' | 'drop_connection';
+
+export interface MockScenarioOptions {
+    /** Milliseconds (real time) before the server answers, to simulate a slow server. */
+    delay?: number;
+    /** `expires_at` of the license. Defaults to 30 days after the clock for `valid` and a day before it for `expired`. */
+    expiresAt?: Date | null;
+    allowedData?: unknown;
+    /** HTTP status of the `server_error` scenario. Defaults to 500. */
+    statusCode?: number;
+    /** Retry-After header, in seconds, sent with `server_error`. */
+    retryAfter?: number;
+}
+
+export interface MockLicenseServerOptions {
+    /** API key the server accepts; requests with another `X-API-Key` get 401. Defaults to `test_api_key`. */
+    apiKey?: string;
+    /** Scenario for licenses without their own. Defaults to `valid`. */
+    scenario?: MockScenario;
+    scenarioOptions?: MockScenarioOptions;
+    /** Ed25519 or RSA private key; when set, every validation response is signed like the License Service does. */
+    privateKey?: KeyObject | string;
+    /** Number of concurrent activations a license allows. Unlimited by default. */
+    seats?: number;
+    /** Time source for `expires_at`. Defaults to a ManualClock starting now. */
+    clock?: Clock;
+}
+
+/** JSON object a client posted to the mock server. */
+export type MockRequestBody = Record<string, unknown>;
+
+export interface MockRequest {
+    path: string;
+    headers: IncomingHttpHeaders;
+    body: MockRequestBody;
+}
+
+interface ScenarioEntry {
+    scenario: MockScenario;
+    options: MockScenarioOptions;
+}
+
+interface Activation {
+    licenseKey: string;
+    productName: string;
+}
+
+export interface MockUsageEvent {
+    event_id: string;
+    metric: string;
+    quantity: number;
+    attributes: Record<string, unknown>;
+    recorded_at: string;
+}
+
+/**
+ * Local `node:http` server speaking the License Service protocol: `/licenses/validate`, `/licenses/activate`,
+ * `/licenses/heartbeat`, `/licenses/deactivate` and `/licenses/usage`. Scenarios can be switched at any time, for all licenses
+ * or per license key, and every request is recorded in `requests`.
+ */
+export class MockLicenseServer {
+    public requests: MockRequest[] = [];
+    public readonly clock: Clock;
+    private options: MockLicenseServerOptions;
+    private defaultScenario: ScenarioEntry;
+    private scenarios = new Map<string, ScenarioEntry>();
+    private activations = new Map<string, Activation>();
+    private activationCount = 0;
+    private usage = new Map<string, MockUsageEvent>();
+    private privateKey: KeyObject | null;
+    private server: http.Server | null = null;
+    private baseUrl: string | null = null;
+
+    constructor(options: MockLicenseServerOptions = {}) {
+        this.options = options;
+        this.clock = options.clock ?? new ManualClock();
+        this.defaultScenario = { scenario: options.scenario ?? 'valid', options: options.scenarioOptions ?? {} };
+        this.privateKey = options.privateKey
+            ? typeof options.privateKey === 'string'
+                ? crypto.createPrivateKey(options.privateKey)
+                : options.privateKey
+            : null;
+    }
+
+    /** Base URL to use as `serverUrl`. */
+    public get url(): string {
+        if (!this.baseUrl) {
+            throw new Error('MockLicenseServer is not started');
+        }
+        return this.baseUrl;
+    }
+
+    /**
+     * Starts listening on a random local port.
+     * @returns The server URL.
+     */
+    public async start(): Promise<string> {
+        if (this.baseUrl) {
+            return this.baseUrl;
+        }
+
+        const server = http.createServer((req, res) => this.handle(req, res));
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        this.server = server;
+        this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        return this.baseUrl;
+    }
+
+    /** Stops the server, dropping open connections, e.g. requests held by a `delay`. */
+    public async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+
+        this.server = null;
+        this.baseUrl = null;
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    /**
+     * Sets the scenario for all licenses, or only for `licenseKey` when given.
+     */
+    public setScenario(scenario: MockScenario, options: MockScenarioOptions = {}, licenseKey?: string): void {
+        const entry = { scenario, options };
+        if (licenseKey === undefined) {
+            this.defaultScenario = entry;
+        } else {
+            this.scenarios.set(licenseKey, entry);
+        }
+    }
+
+    /** Returns the active activation ids of a license. */
+    public getActivations(licenseKey: string): string[] {
+        return [...this.activations.entries()]
+            .filter(([, activation]) => activation.licenseKey === licenseKey)
+            .map(([id]) => id);
+    }
+
+    /** Returns the usage events received for a license, counting each event id once. */
+    public getUsage(licenseKey: string): MockUsageEvent[] {
+        return [...this.usage.entries()].filter(([key]) => key.startsWith(`${licenseKey}:`)).map(([, event]) => event);
+    }
+
+    /** Restores the initial scenario and forgets recorded requests, per-license scenarios, activations and usage. */
+    public reset(): void {
+        this.requests = [];
+        this.scenarios.clear();
+        this.activations.clear();
+        this.usage.clear();
+        this.defaultScenario = {
+            scenario: this.options.scenario ?? 'valid',
+            options: this.options.scenarioOptions ?? {},
+        };
+    }
+
+    /**
+     * Agent config pointing at this server, sharing its clock and with fingerprinting disabled.
+     * @param overrides Fields to change, e.g. `licenseKey` or `cacheTTL`.
+     */
+    public agentConfig(overrides: Partial<LicenseAgentConfig> = {}): LicenseAgentConfig {
+        return {
+            serverUrl: this.url,
+            apiKey: this.options.apiKey ?? DEFAULT_API_KEY,
+            licenseKey: DEFAULT_LICENSE_KEY,
+            productName: DEFAULT_PRODUCT_NAME,
+            fingerprint: false,
+            clock: this.clock,
+            ...overrides,
+        };
+    }
+
+    private handle(req: IncomingMessage, res: ServerResponse): void {
+        let raw = '';
+        req.on('data', (chunk) => (raw += chunk));
+        req.on('end', () => {
+            let parsed: unknown;
+            try {
+                parsed = raw ? JSON.parse(raw) : {};
+            } catch {
+                return this.send(res, 400, { error: 'invalid_json' });
+            }
+            if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+                return this.send(res, 400, { error: 'invalid_body' });
+            }
+            const body = parsed as MockRequestBody;
+
+            const path = (req.url ?? '/').split('?')[0];
+            this.requests.push({ path, headers: req.headers, body });
+
+            if (req.headers['x-api-key'] !== (this.options.apiKey ?? DEFAULT_API_KEY)) {
+                return this.send(res, 401, { error: 'invalid_api_key' });
+            }
+
+            const entry = this.scenarios.get(stringField(body, 'license_key') ?? '') ?? this.defaultScenario;
+            const respond = () => this.respond(path, body, entry, res);
+            if (entry.options.delay) {
+                setTimeout(respond, entry.options.delay);
+            } else {
+                respond();
+            }
+        });
+    }
+
+    private respond(path: string, body: MockRequestBody, entry: ScenarioEntry, res: ServerResponse): void {
+        if (entry.scenario === 'drop_connection') {
+            res.socket?.destroy();
+            return;
+        }
+        if (entry.scenario === 'server_error') {
+            const headers: Record<string, string> =
+                entry.options.retryAfter !== undefined ? { 'Retry-After': String(entry.options.retryAfter) } : {};
+            return this.send(res, entry.options.statusCode ?? 500, { error: 'internal_error' }, headers);
+        }
+
+        switch (path) {
+            case '/licenses/validate':
+                return this.send(res, 200, this.validationResponse(body, entry));
+            case '/licenses/activate':
+                return this.activate(body, entry, res);
+            case '/licenses/heartbeat':
+                if (!this.activations.has(stringField(body, 'activation_id') ?? '')) {
+                    return this.send(res, 200, this.sign(body, { is_valid: false, reason: 'activation_not_found' }));
+                }
+                return this.send(res, 200, this.validationResponse(body, entry));
+            case '/licenses/deactivate':
+                if (!this.activations.delete(stringField(body, 'activation_id') ?? '')) {
+                    return this.send(res, 404, { error: 'activation_not_found' });
+                }
+                return this.send(res, 200, { released: true });
+            case '/licenses/usage':
+                return this.recordUsage(body, res);
+            default:
+                return this.send(res, 404, { error: 'not_found' });
+        }
+    }
+
+    private activate(body: MockRequestBody, entry: ScenarioEntry, res: ServerResponse): void {
+        const response = this.validationResponse(body, entry, false);
+        if (!response.is_valid) {
+            return this.send(res, 200, this.sign(body, response));
+        }
+
+        const licenseKey = stringField(body, 'license_key') ?? '';
+        let activationId = stringField(body, 'activation_id') ?? '';
+        if (!this.activations.has(activationId)) {
+            if (this.getActivations(licenseKey).length >= (this.options.seats ?? Infinity)) {
+                return this.send(res, 409, { error: 'seat_limit_reached' });
+            }
+            activationId = `act_${++this.activationCount}`;
+            this.activations.set(activationId, {
+                licenseKey,
+                productName: stringField(body, 'product_name') ?? '',
+            });
+        }
+
+        this.send(res, 200, this.sign(body, { ...response, activation_id: activationId }));
+    }
+
+    private recordUsage(body: MockRequestBody, res: ServerResponse): void {
+        const events = body.events;
+        if (!Array.isArray(events)) {
+            return this.send(res, 400, { error: 'invalid_events' });
+        }
+
+        let accepted = 0;
+        for (const event of events as MockUsageEvent[]) {
+            // Replayed events keep their id and are counted once, like on the License Service.
+            const key = `${body.license_key}:${event.event_id}`;
+            if (!this.usage.has(key)) {
+                this.usage.set(key, event);
+                accepted++;
+            }
+        }
+
+        this.send(res, 200, { accepted, duplicates: events.length - accepted });
+    }
+
+    private validationResponse(body: MockRequestBody, entry: ScenarioEntry, signed = true): ValidationApiResponse {
+        const now = this.clock.now();
+        const { options } = entry;
+        const expiresAt = (fallback: number) =>
+            options.expiresAt === undefined
+                ? new Date(fallback).toISOString()
+                : (options.expiresAt?.toISOString() ?? null);
+
+        let response: ValidationApiResponse;
+        switch (entry.scenario) {
+            case 'valid':
+                response = {
+                    is_valid: true,
+                    status: 'active',
+                    reason: 'valid',
+                    expires_at: expiresAt(now + 30 * DAY),
+                    allowed_data: options.allowedData ?? null,
+                };
+                break;
+            case 'expired':
+                response = { is_valid: false, status: 'expired', reason: 'expired', expires_at: expiresAt(now - DAY) };
+                break;
+            case 'revoked':
+                response = { is_valid: false, status: 'revoked', reason: 'revoked' };
+                break;
+            default:
+                response = { is_valid: false, status: null, reason: 'not_found' };
+        }
+
+        return signed ? this.sign(body, response) : response;
+    }
+
+    private sign<T extends object>(body: MockRequestBody, response: T): T {
+        if (!this.privateKey) {
+            return response;
+        }
+
+        // Like the License Service, bind the signature to the license it was requested for and the time it was issued.
+        const signed = {
+            ...response,
+            license_key: stringField(body, 'license_key'),
+            product_name: stringField(body, 'product_name'),
+            issued_at: new Date(this.clock.now()).toISOString(),
+        };
+        const algorithm = this.privateKey.asymmetricKeyType === 'ed25519' ? null : 'sha256';
+        const signature = crypto.sign(algorithm, Buffer.from(canonicalize(signed), 'utf8'), this.privateKey);
+        return { ...signed, signature: signature.toString('base64') };
+    }
+
+    private send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+        // The agent corrects its clock by the Date header, so it must follow this server's clock.
+        res.writeHead(status, {
+            'Content-Type': 'application/json',
+            Date: new Date(this.clock.now()).toUTCString(),
+            ...headers,
+        });
+        res.end(JSON.stringify(body));
+    }
+}
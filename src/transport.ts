@@ -0,0 +1,438 @@
+import type { AxiosInstance } from 'axios';
+import {
+    CircuitState,
+    Clock,
+    EndpointHealth,
+    FailoverOptions,
+    Transport,
+    TransportOptions,
+    TransportRequestOptions,
+    TransportResponse,
+} from './types';
+import { InvalidConfigError, NetworkError, createHttpError, isTransientError, toRequestError } from './errors';
+
+const CONNECTION_FAILED_MESSAGE = 'Failed to connect to license server';
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_PROBE_INTERVAL = 30 * 1000;
+
+/** Headers sent with every request, whichever transport carries it. */
+export function defaultHeaders(options: TransportOptions): Record<string, string> {
+    return {
+        'Content-Type': 'application/json',
+        'X-API-Key': options.apiKey,
+    };
+}
+
+function joinUrl(serverUrl: string, path: string): string {
+    return `${serverUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+function normalizeHeaders(headers: unknown): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    if (!headers || typeof headers !== 'object') {
+        return normalized;
+    }
+
+    for (const [name, value] of Object.entries(headers as Record<string, unknown>)) {
+        if (value !== undefined && value !== null) {
+            normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+    }
+    return normalized;
+}
+
+function isSuccess(status: number): boolean {
+    return status >= 200 && status < 300;
+}
+
+/**
+ * Sends requests with axios. This is the default transport.
+ * Pass an existing axios instance to share it between agents; it must already carry the base URL and headers.
+ * axios is only loaded by the first request, so agents using another transport never load it.
+ */
+export class AxiosTransport implements Transport {
+    private options: TransportOptions;
+    private client: Promise<AxiosInstance> | null;
+
+    constructor(options: TransportOptions, client?: AxiosInstance) {
+        this.options = options;
+        this.client = client ? Promise.resolve(client) : null;
+    }
+
+    public async post<T>(
+        path: string,
+        body: unknown,
+        options?: TransportRequestOptions
+    ): Promise<TransportResponse<T>> {
+        const client = await this.getClient();
+        try {
+            const response =
+                options?.timeout !== undefined
+                    ? await client.post<T>(path, body, { timeout: options.timeout })
+                    : await client.post<T>(path, body);
+            return { status: response.status, data: response.data, headers: normalizeHeaders(response.headers) };
+        } catch (error) {
+            throw toRequestError(error);
+        }
+    }
+
+    private getClient(): Promise<AxiosInstance> {
+        if (!this.client) {
+            this.client = import('axios').then(({ default: axios }) =>
+                axios.create({
+                    baseURL: this.options.serverUrl,
+                    timeout: this.options.requestTimeout,
+                    headers: defaultHeaders(this.options),
+                })
+            );
+        }
+        return this.client;
+    }
+}
+
+export interface FetchTransportOptions extends TransportOptions {
+    /** `fetch` implementation to use. Defaults to the global one (Node.js 18+, browsers, edge runtimes). */
+    fetch?: typeof fetch;
+}
+
+/**
+ * Sends requests with `fetch`, without any dependencies. Suitable for edge runtimes.
+ * Timeouts abort the request through an AbortController.
+ */
+export class FetchTransport implements Transport {
+    private options: FetchTransportOptions;
+
+    constructor(options: FetchTransportOptions) {
+        this.options = options;
+    }
+
+    public async post<T>(
+        path: string,
+        body: unknown,
+        options?: TransportRequestOptions
+    ): Promise<TransportResponse<T>> {
+        const fetchImpl = this.options.fetch ?? fetch;
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), options?.timeout ?? this.options.requestTimeout);
+
+        let response: Response;
+        let text: string;
+        try {
+            response = await fetchImpl(joinUrl(this.options.serverUrl, path), {
+                method: 'POST',
+                headers: defaultHeaders(this.options),
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+            text = await response.text();
+        } catch (error) {
+            throw new NetworkError(CONNECTION_FAILED_MESSAGE, error as Error);
+        } finally {
+            clearTimeout(timer);
+        }
+
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+            headers[name.toLowerCase()] = value;
+        });
+        const data = parseBody(text);
+
+        if (!isSuccess(response.status)) {
+            throw createHttpError(response.status, data, headers);
+        }
+        return { status: response.status, data: data as T, headers };
+    }
+}
+
+function parseBody(text: string): unknown {
+    if (!text) {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(text);
+    } catch {
+        // Same as axios: a body that is not JSON is handed over as text.
+        return text;
+    }
+}
+
+export interface ScriptedRequest {
+    path: string;
+    body: unknown;
+    timeout: number;
+}
+
+export type ScriptedReply =
+    | {
+          status?: number;
+          data?: unknown;
+          headers?: Record<string, string>;
+          /** Milliseconds before the reply arrives. A delay past the request timeout fails with a NetworkError. */
+          delay?: number;
+      }
+    | {
+          /** Fails the request as if the connection was refused or dropped. */
+          networkError: true;
+          delay?: number;
+      };
+
+export type ScriptedHandler = ScriptedReply | ((request: ScriptedRequest) => ScriptedReply | Promise<ScriptedReply>);
+
+/**
+ * In-memory transport for unit tests: replies are scripted per path instead of coming from a server.
+ * Queued replies (`reply()`) are used once each, in order; after that the path's default (`replyAlways()`) answers.
+ * Paths without any reply answer 404. Every request is recorded in `requests`.
+ */
+export class ScriptedTransport implements Transport {
+    public requests: ScriptedRequest[] = [];
+    private queued = new Map<string, ScriptedHandler[]>();
+    private defaults = new Map<string, ScriptedHandler>();
+    private requestTimeout: number;
+
+    constructor(options: Partial<Pick<TransportOptions, 'requestTimeout'>> = {}) {
+        this.requestTimeout = options.requestTimeout ?? Infinity;
+    }
+
+    /** Queues replies for the next requests to `path`. */
+    public reply(path: string, ...replies: ScriptedHandler[]): this {
+        this.queued.set(path, [...(this.queued.get(path) ?? []), ...replies]);
+        return this;
+    }
+
+    /** Sets the reply used for `path` once its queue is empty. */
+    public replyAlways(path: string, reply: ScriptedHandler): this {
+        this.defaults.set(path, reply);
+        return this;
+    }
+
+    /** Drops all scripted replies and recorded requests. */
+    public reset(): void {
+        this.requests = [];
+        this.queued.clear();
+        this.defaults.clear();
+    }
+
+    public async post<T>(
+        path: string,
+        body: unknown,
+        options?: TransportRequestOptions
+    ): Promise<TransportResponse<T>> {
+        const request: ScriptedRequest = { path, body, timeout: options?.timeout ?? this.requestTimeout };
+        this.requests.push(request);
+
+        const handler = this.queued.get(path)?.shift() ?? this.defaults.get(path);
+        const reply: ScriptedReply = !handler
+            ? { status: 404, data: { error: 'not_found' } }
+            : typeof handler === 'function'
+              ? await handler(request)
+              : handler;
+
+        const delay = reply.delay ?? 0;
+        if (delay > 0) {
+            await sleep(Math.min(delay, request.timeout));
+        }
+        if (delay > request.timeout) {
+            throw new NetworkError(CONNECTION_FAILED_MESSAGE, new Error(`timeout of ${request.timeout}ms exceeded`));
+        }
+        if ('networkError' in reply) {
+            throw new NetworkError(CONNECTION_FAILED_MESSAGE, new Error('socket hang up'));
+        }
+
+        const status = reply.status ?? 200;
+        const headers = normalizeHeaders(reply.headers);
+        if (!isSuccess(status)) {
+            throw createHttpError(status, reply.data, headers);
+        }
+        return { status, data: reply.data as T, headers };
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface FailoverEndpoint {
+    url: string;
+    transport: Transport;
+}
+
+export interface FailoverTransportOptions extends FailoverOptions {
+    /** Time source for `probeInterval`. Defaults to the system clock. */
+    clock?: Clock;
+    /** Time budget in milliseconds shared by all endpoints when a request has no `timeout`. Defaults to none. */
+    requestTimeout?: number;
+    /** Called whenever an endpoint's circuit changes state. */
+    onStateChange?: (health: EndpointHealth) => void;
+}
+
+interface Circuit {
+    endpoint: FailoverEndpoint;
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: number | null;
+}
+
+/**
+ * Sends every request to the first available endpoint of an ordered list and fails over to the next one on
+ * transient errors (no response, 5xx, 429, or a body rejected by the request's `validateResponse`). Other errors
+ * are returned as they are: another endpoint would answer the same way.
+ *
+ * Each endpoint has a circuit breaker. After `failureThreshold` consecutive transient failures its circuit opens
+ * and the endpoint is skipped; once `probeInterval` has passed, a single request probes it again and closes the
+ * circuit if it succeeds, so a recovered primary takes over again. When every circuit is open, all endpoints are
+ * tried in order anyway. Probing is lazy: no timer runs in the background, the probe is the first request made
+ * after `probeInterval` has passed.
+ *
+ * A request's `timeout` is one deadline for the whole request, split evenly between the endpoints still to be tried:
+ * an endpoint that hangs, including a probed one, times out early enough for the next one to answer in time.
+ */
+export class FailoverTransport implements Transport {
+    private circuits: Circuit[];
+    private failureThreshold: number;
+    private probeInterval: number;
+    private requestTimeout?: number;
+    private clock: Clock;
+    private onStateChange?: (health: EndpointHealth) => void;
+
+    constructor(endpoints: FailoverEndpoint[], options: FailoverTransportOptions = {}) {
+        if (endpoints.length === 0) {
+            throw new InvalidConfigError('At least one endpoint is required');
+        }
+
+        this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+        this.probeInterval = options.probeInterval ?? DEFAULT_PROBE_INTERVAL;
+        if (!Number.isInteger(this.failureThreshold) || this.failureThreshold < 1) {
+            throw new InvalidConfigError('failover.failureThreshold must be a positive integer');
+        }
+        if (!(this.probeInterval > 0)) {
+            throw new InvalidConfigError('failover.probeInterval must be a positive number');
+        }
+
+        this.requestTimeout = options.requestTimeout;
+        this.clock = options.clock ?? { now: () => Date.now() };
+        this.onStateChange = options.onStateChange;
+        this.circuits = endpoints.map((endpoint) => ({
+            endpoint,
+            state: 'closed',
+            consecutiveFailures: 0,
+            openedAt: null,
+        }));
+    }
+
+    /** Current circuit state of every endpoint, in priority order. */
+    public health(): EndpointHealth[] {
+        return this.circuits.map((circuit) => this.describe(circuit));
+    }
+
+    public async post<T>(
+        path: string,
+        body: unknown,
+        options?: TransportRequestOptions
+    ): Promise<TransportResponse<T>> {
+        const now = this.clock.now();
+        const available = this.circuits.filter((circuit) => this.isAvailable(circuit, now));
+        const timeout = options?.timeout ?? this.requestTimeout;
+        // Request timeouts are real time, unlike the circuits, which follow the configured clock.
+        const deadlineAt = timeout !== undefined ? Date.now() + timeout : Infinity;
+        let lastError: unknown;
+
+        const candidates = available.length > 0 ? available : this.circuits;
+        for (const [index, circuit] of candidates.entries()) {
+            const remaining = deadlineAt - Date.now();
+            if (remaining <= 0 && lastError !== undefined) {
+                break;
+            }
+            const attemptTimeout = remaining / (candidates.length - index);
+            if (circuit.state === 'open') {
+                this.transition(circuit, 'half_open');
+            }
+
+            try {
+                const response = await circuit.endpoint.transport.post<T>(
+                    path,
+                    body,
+                    attemptTimeout === Infinity
+                        ? options
+                        : { ...options, timeout: Math.max(1, Math.floor(attemptTimeout)) }
+                );
+                options?.validateResponse?.(response.data);
+                this.recordSuccess(circuit);
+                return { ...response, endpoint: circuit.endpoint.url };
+            } catch (error) {
+                const requestError = toRequestError(error);
+                if (!isTransientError(requestError)) {
+                    // The endpoint answered; the request itself was refused.
+                    this.recordSuccess(circuit);
+                    throw requestError;
+                }
+                this.recordFailure(circuit);
+                lastError = requestError;
+            }
+        }
+
+        throw lastError;
+    }
+
+    private isAvailable(circuit: Circuit, now: number): boolean {
+        if (circuit.state === 'closed') {
+            return true;
+        }
+        // A half-open circuit already has its probe in flight.
+        return circuit.state === 'open' && now - (circuit.openedAt ?? 0) >= this.probeInterval;
+    }
+
+    private recordSuccess(circuit: Circuit): void {
+        circuit.consecutiveFailures = 0;
+        if (circuit.state !== 'closed') {
+            this.transition(circuit, 'closed');
+        }
+    }
+
+    private recordFailure(circuit: Circuit): void {
+        circuit.consecutiveFailures++;
+        if (circuit.state === 'half_open' || circuit.consecutiveFailures >= this.failureThreshold) {
+            circuit.openedAt = this.clock.now();
+            this.transition(circuit, 'open');
+        }
+    }
+
+    private transition(circuit: Circuit, state: CircuitState): void {
+        if (circuit.state === state) {
+            return;
+        }
+        circuit.state = state;
+        try {
+            this.onStateChange?.(this.describe(circuit));
+        } catch {
+            // Observers must not break requests.
+        }
+    }
+
+    private describe(circuit: Circuit): EndpointHealth {
+        return {
+            url: circuit.endpoint.url,
+            state: circuit.state,
+            consecutiveFailures: circuit.consecutiveFailures,
+            openedAt: circuit.openedAt,
+        };
+    }
+}
+
+/**
+ * Builds the default transport: an AxiosTransport for a single URL, or a FailoverTransport over one
+ * AxiosTransport per URL when `serverUrl` is a list.
+ */
+export function createDefaultTransport(
+    options: Omit<TransportOptions, 'serverUrl'> & { serverUrl: string | string[] },
+    failover: FailoverTransportOptions = {}
+): Transport {
+    if (!Array.isArray(options.serverUrl)) {
+        return new AxiosTransport({ ...options, serverUrl: options.serverUrl });
+    }
+
+    return new FailoverTransport(
+        options.serverUrl.map((url) => ({ url, transport: new AxiosTransport({ ...options, serverUrl: url }) })),
+        { requestTimeout: options.requestTimeout, ...failover }
+    );
+}
@@ -1,40 +1,376 @@
+import type { KeyObject } from 'crypto';
+
+export type PublicKeyInput = string | Buffer | KeyObject;
+
 export interface LicenseAgentConfig {
-    serverUrl: string;
+    /**
+     * License Service URL, or an ordered list of them. With several URLs requests go to the first healthy one
+     * and fail over to the next on transient errors (see `failover`).
+     */
+    serverUrl: string | string[];
     apiKey: string;
     licenseKey: string;
     productName: string;
     cacheTTL?: number;
+    /**
+     * How long after `cacheTTL` an expired result is still returned immediately (marked `isStale`)
+     * while a background request refreshes the cache. Disabled (0) by default.
+     */
+    staleWhileRevalidate?: number;
     gracePeriod?: number;
+    /** Timeout of one request in milliseconds. With several `serverUrl`s it covers all endpoints tried for it. */
     requestTimeout?: number;
 
     staticMetadata?: Record<string, unknown>;
+    /**
+     * Where validation results are persisted between checks.
+     * Defaults to an in-memory store; use a FileCacheStore to keep the grace period across restarts.
+     */
+    cacheStore?: CacheStore;
+    /**
+     * Where usage events not yet accepted by the server are kept, separately from validation results.
+     * Defaults to an in-memory store; use a FileUsageStore to keep unsent usage across restarts.
+     */
+    usageStore?: UsageStore;
+    /**
+     * Ed25519 or RSA public key (PEM, DER or KeyObject). When set, every server response
+     * and cached result must carry a valid signature over this license, product and the issue time.
+     */
+    publicKey?: PublicKeyInput;
+    /**
+     * How long before `expiresAt` valid results get the `expiring_soon` reason and the `expiringSoon` event fires.
+     * Defaults to 7 days.
+     */
+    expiringSoonWindow?: number;
+    /**
+     * How far the local clock may move backwards before validation reports `clock_tampered` instead of
+     * serving cached or grace-period results. Defaults to 5 minutes.
+     */
+    clockRollbackTolerance?: number;
+    /** Timing of the background revalidation started with `agent.start()`. */
+    revalidation?: RevalidationOptions;
+    /** Retry policy for validation requests. Without it every request is attempted once. */
+    retry?: RetryOptions;
+    /** Timing of the seat heartbeat started with `agent.startHeartbeat()`. Interval defaults to 5 minutes. */
+    heartbeat?: RevalidationOptions;
+    /** Release the activated seat when the process exits or receives SIGINT/SIGTERM. Defaults to true. */
+    deactivateOnExit?: boolean;
+    /** Machine fingerprint sent with validation and activation requests. Set to false to disable it. */
+    fingerprint?: FingerprintOptions | false;
+    /**
+     * How requests reach the License Service. Defaults to an AxiosTransport built from
+     * `serverUrl`, `apiKey` and `requestTimeout`; use FetchTransport for edge runtimes or ScriptedTransport in tests.
+     */
+    transport?: Transport;
+    /** Source of the current time for cache TTL, grace period and expiry checks. Defaults to the system clock. */
+    clock?: Clock;
+    /** Receives diagnostic messages. The API key and license key are redacted. Silent by default. */
+    logger?: Logger;
+    /** Hooks called with validation, cache and request measurements, e.g. a PrometheusExporter. */
+    metrics?: MetricsHooks;
+    /** Batching and queue limits of events recorded with `agent.recordUsage()`. */
+    usage?: UsageOptions;
+    /** Circuit breaker settings used when `serverUrl` lists several endpoints. */
+    failover?: FailoverOptions;
+    /**
+     * Maps results to the enforcement level reported in `ValidationResult.enforcement`. Without it valid results
+     * (including the grace period) are `full` and all others `blocked`.
+     */
+    enforcement?: EnforcementPolicy;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Minimal logger interface; console, pino and winston loggers fit it. */
+export interface Logger {
+    debug(message: string, context?: Record<string, unknown>): void;
+    info(message: string, context?: Record<string, unknown>): void;
+    warn(message: string, context?: Record<string, unknown>): void;
+    error(message: string, context?: Record<string, unknown>): void;
+}
+
+export type RequestOutcome = 'success' | 'error';
+
+/** Measurement callbacks. Implement only the ones you need; exceptions thrown by them are ignored. */
+export interface MetricsHooks {
+    /** Called for every result returned by `validate()`. */
+    validation?(result: ValidationResult): void;
+    /** `validate()` answered from a fresh or stale-while-revalidate cache entry. */
+    cacheHit?(): void;
+    /** `validate()` had to ask the server. */
+    cacheMiss?(): void;
+    /** Duration of every request attempt to the server. */
+    requestDuration?(path: string, durationMs: number, outcome: RequestOutcome): void;
+    /** A failed request is about to be retried. */
+    retry?(path: string, attempt: number, error: unknown): void;
+    gracePeriodEntered?(result: ValidationResult): void;
+}
+
+/** How much of the product a license result allows, from `full` access down to `blocked`. */
+export type EnforcementLevel = 'full' | 'read_only' | 'limited' | 'blocked';
+
+/** Conditions of a policy rule. A rule matches when all of its conditions do; a rule without any always matches. */
+export interface EnforcementRule {
+    level: EnforcementLevel;
+    /** Matches `isValid`. */
+    valid?: boolean;
+    /** Matches any of these statuses; `null` stands for a missing status. */
+    status?: Array<string | null>;
+    /** Matches any of these reasons; `null` stands for a missing reason. */
+    reason?: Array<string | null>;
+    /** Matches results obtained without a server answer (`isOffline`), or only answered ones when false. */
+    offline?: boolean;
+    /** Matches offline results whose last server answer is at least this many milliseconds old. */
+    offlineFor?: number;
+    /** Matches licenses expiring within this many milliseconds, including expired ones. */
+    expiresWithin?: number;
+}
+
+export interface EnforcementPolicy {
+    /** Checked in order; the first matching rule sets the level. */
+    rules: EnforcementRule[];
+    /** Level when no rule matches. Defaults to `full` for valid results and `blocked` for the rest. */
+    default?: EnforcementLevel;
+}
+
+export interface FailoverOptions {
+    /** Consecutive transient failures after which an endpoint's circuit opens and it is skipped. Defaults to 3. */
+    failureThreshold?: number;
+    /**
+     * How long an open circuit skips its endpoint before one request probes it again. Defaults to 30 seconds.
+     * There is no background probing: the probe is the next request made after this interval. It gets only its share
+     * of the request timeout, so a probe of a still unreachable endpoint leaves the next one time to answer.
+     */
+    probeInterval?: number;
+}
+
+/** `closed`: the endpoint is used; `open`: it is skipped; `half_open`: a probe request is in flight. */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface EndpointHealth {
+    url: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** Epoch milliseconds at which the circuit last opened, or null if it never did. */
+    openedAt: number | null;
+}
+
+export interface Clock {
+    /** Current time in epoch milliseconds. */
+    now(): number;
+}
+
+export interface TransportOptions {
+    serverUrl: string;
+    apiKey: string;
+    requestTimeout: number;
+}
+
+export interface TransportRequestOptions {
+    /** Overrides the transport's `requestTimeout` for this request. */
+    timeout?: number;
+    /**
+     * Checks the response body, throwing an InvalidResponseError if it is malformed. Transports that choose between
+     * several endpoints call it before counting an answer as a success, so an endpoint sending garbage is failed over.
+     */
+    validateResponse?: (data: unknown) => void;
+}
+
+export interface TransportResponse<T = unknown> {
+    status: number;
+    data: T;
+    /** Response headers with lower-case names. */
+    headers: Record<string, string>;
+    /** Server URL that answered, set by transports that choose between several endpoints. */
+    endpoint?: string;
+}
+
+/**
+ * Sends a JSON request to the License Service. Implementations send the `X-API-Key` header and reject with
+ * a NetworkError when no response arrives (including timeouts) and with an HttpError subclass for non-2xx statuses.
+ */
+export interface Transport {
+    post<T>(path: string, body: unknown, options?: TransportRequestOptions): Promise<TransportResponse<T>>;
+}
+
+export type FingerprintComponent = 'machineId' | 'hostname' | 'cpuModel' | 'macAddresses' | 'container';
+
+export interface FingerprintOptions {
+    /** Components hashed into the fingerprint. Defaults to all of them. */
+    components?: FingerprintComponent[];
+    /** Files tried in order for the machine id. Defaults to /etc/machine-id and /var/lib/dbus/machine-id. */
+    machineIdPaths?: string[];
+    /** Number of components allowed to change while keeping the persisted fingerprint id. Defaults to 1. */
+    tolerance?: number;
+    /** Replaces the identifier sent to the server, e.g. with one derived from your own inventory. */
+    override?: (fingerprint: MachineFingerprint) => string | Promise<string>;
+}
+
+export interface MachineFingerprint {
+    id: string;
+    /** SHA-256 hash of every component that could be read. */
+    components: Partial<Record<FingerprintComponent, string>>;
+    /** Detected container runtime, or null on a plain host. */
+    container: string | null;
+}
+
+export interface RetryOptions {
+    /** Total number of attempts, including the first one. Defaults to 3. */
+    maxAttempts?: number;
+    /** Delay before the first retry; doubled on every further retry. Defaults to 500 ms. */
+    baseDelay?: number;
+    /** Upper bound for the backoff delay. A longer `Retry-After` ends the retries instead. Defaults to 5 seconds. */
+    maxDelay?: number;
+    /** Random reduction applied to every backoff delay, as a fraction of it (0-1). Defaults to 0.2. */
+    jitter?: number;
+    /** Decides whether a failed attempt is retried. Defaults to `isRetryableError`. */
+    retryOn?: (error: unknown, attempt: number) => boolean;
+    /** Overall time budget for all attempts. Each attempt's timeout is shortened to fit into it. */
+    deadline?: number;
+}
+
+export interface RevalidationOptions {
+    /** Delay between background runs. Defaults to half of `cacheTTL` for revalidation. */
+    interval?: number;
+    /** Delay between runs while offline or in grace period. Defaults to a quarter of `interval`. */
+    gracePeriodInterval?: number;
+    /** Random spread applied to every delay, as a fraction of it (0-1). Defaults to 0.1. */
+    jitter?: number;
+}
+
+export interface UsageOptions {
+    /** Delay between automatic flushes of buffered events. Defaults to 30 seconds. */
+    flushInterval?: number;
+    /** Maximum number of events sent in one request; a full batch is flushed right away. Defaults to 100. */
+    batchSize?: number;
+    /** Maximum number of unsent events kept. Beyond it the oldest events are dropped. Defaults to 10,000. */
+    maxQueueSize?: number;
+}
+
+export interface UsageEvent {
+    /** Unique id; the server ignores events it has already received with the same id. */
+    id: string;
+    metric: string;
+    quantity: number;
+    attributes?: Record<string, unknown>;
+    /** Epoch milliseconds at which the usage was recorded. */
+    timestamp: number;
+}
+
+export interface UsageFlushResult {
+    /** Number of events the server accepted during this flush. */
+    sent: number;
+    /** Number of events still queued, e.g. because the server could not be reached. */
+    pending: number;
+    error?: Error | null;
 }
 
+type OptionalConfigKeys =
+    | 'staticMetadata'
+    | 'publicKey'
+    | 'revalidation'
+    | 'retry'
+    | 'heartbeat'
+    | 'fingerprint'
+    | 'transport'
+    | 'logger'
+    | 'metrics'
+    | 'usage'
+    | 'failover'
+    | 'enforcement';
+
+export type ResolvedLicenseAgentConfig = Required<Omit<LicenseAgentConfig, OptionalConfigKeys>> &
+    Pick<LicenseAgentConfig, OptionalConfigKeys>;
+
 export interface ValidationRequestPayload {
     metadata?: Record<string, unknown> | null;
 }
 
-export interface ValidationApiResponse {
+export interface ValidationApiResponse<TEntitlements = any> {
     is_valid: boolean;
     status?: string | null;
     reason?: string | null;
     expires_at?: string | null;
+    allowed_data?: TEntitlements | null;
+    /** License the response was issued for. With a `publicKey`, it must match the config's license and product. */
+    license_key?: string | null;
+    product_name?: string | null;
+    /** Server time the response was issued at, as an ISO date. Required with a `publicKey`. */
+    issued_at?: string | null;
+    /** Base64 signature over the canonical JSON of all other fields. */
+    signature?: string | null;
+}
+
+export interface ActivationApiResponse extends ValidationApiResponse {
+    activation_id?: string | null;
+}
+
+export interface OfflineLicensePayload {
+    license_key: string;
+    product_name: string;
+    status?: string | null;
+    expires_at?: string | null;
+    issued_at?: string | null;
     allowed_data?: any | null;
 }
 
-export interface ValidationResult {
+export interface ValidationResult<TEntitlements = any> {
     isValid: boolean;
     isOffline?: boolean;
     isGracePeriod?: boolean;
+    /** Set when an expired cached result is served while a background refresh is running. */
+    isStale?: boolean;
     reason?: string | null;
     status?: string | null;
     expiresAt?: Date | null;
-    allowedData?: any | null;
+    allowedData?: TEntitlements | null;
     error?: Error | null;
     lastCheckedAt?: Date | null;
+    /** Seat activation this result belongs to, set by `activate()` and `heartbeat()`. */
+    activationId?: string | null;
+    /** Server URL that produced the result, when `serverUrl` lists several endpoints. */
+    endpoint?: string | null;
+    /** Access the `enforcement` policy grants for this result. */
+    enforcement?: EnforcementLevel;
 }
 
 export interface CacheEntry {
     result: ValidationResult;
     timestamp: number;
+    /** Raw signed server response, kept so the cached result can be re-verified. */
+    response?: ValidationApiResponse;
+    /** Machine fingerprint the result was obtained with, kept so its id survives small hardware changes. */
+    fingerprint?: MachineFingerprint;
+    /** Server time minus local time, from the last response's `Date` header. */
+    clockOffset?: number;
+    /** Latest local time seen while validating offline, used to detect clock rollback across restarts. */
+    lastSeenAt?: number;
 }
+
+export interface UsageStore {
+    get(key: string): Promise<UsageEvent[] | null>;
+    set(key: string, events: UsageEvent[]): Promise<void>;
+}
+
+export interface CacheStore {
+    get(key: string): Promise<CacheEntry | null>;
+    set(key: string, entry: CacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Conventional shape of `allowedData`. Pass your own schema as the type parameter of `LicenseAgent`
+ * to get typed feature and limit names.
+ */
+export interface Entitlements {
+    features?: readonly string[] | Record<string, boolean>;
+    limits?: Record<string, number>;
+}
+
+export type FeatureName<TEntitlements> = TEntitlements extends { features?: infer F }
+    ? F extends readonly (infer N)[]
+        ? N & string
+        : keyof F & string
+    : string;
+
+export type LimitName<TEntitlements> = TEntitlements extends { limits?: infer L } ? keyof L & string : string;
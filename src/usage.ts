@@ -0,0 +1,191 @@
+import { AuthenticationError, isTransientError, toRequestError } from './errors';
+import { UsageEvent, UsageFlushResult, UsageOptions } from './types';
+
+export type ResolvedUsageOptions = Required<UsageOptions>;
+
+const DEFAULT_USAGE_FLUSH_INTERVAL = 30 * 1000;
+const DEFAULT_USAGE_BATCH_SIZE = 100;
+const DEFAULT_USAGE_MAX_QUEUE_SIZE = 10000;
+
+/**
+ * Applies the defaults to the `usage` config. Checked by `validateConfig`.
+ */
+export function resolveUsageOptions(usage?: UsageOptions): ResolvedUsageOptions {
+    return {
+        flushInterval: usage?.flushInterval ?? DEFAULT_USAGE_FLUSH_INTERVAL,
+        batchSize: usage?.batchSize ?? DEFAULT_USAGE_BATCH_SIZE,
+        maxQueueSize: usage?.maxQueueSize ?? DEFAULT_USAGE_MAX_QUEUE_SIZE,
+    };
+}
+
+/** Where the queue keeps unsent events between restarts. */
+export interface UsageStorage {
+    load(): Promise<UsageEvent[]>;
+    save(events: UsageEvent[]): Promise<void>;
+}
+
+/**
+ * Buffers usage events and sends them in batches on unref'd timers.
+ * The queue is saved to `storage` after each flush attempt and on `stop()` rather than per event, so recording stays
+ * cheap while offline; unsent events survive restarts and are replayed with their original ids.
+ * Flushes never overlap, and a batch leaves the queue only once the server has accepted it.
+ */
+export class UsageQueue {
+    private events: UsageEvent[] = [];
+    private restored: Promise<void> | null = null;
+    private flushing: Promise<UsageFlushResult> | null = null;
+    private saving: Promise<void> = Promise.resolve();
+    private dirty = false;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly send: (events: UsageEvent[]) => Promise<void>,
+        private readonly storage: UsageStorage,
+        private readonly options: ResolvedUsageOptions,
+        private readonly onDrop: (events: UsageEvent[]) => void = () => undefined
+    ) {}
+
+    /** Number of events waiting to be sent. */
+    public get size(): number {
+        return this.events.length;
+    }
+
+    /**
+     * Queues an event. A full batch is flushed right away, otherwise a flush is scheduled; either saves the queue.
+     */
+    public async add(event: UsageEvent): Promise<void> {
+        await this.restore();
+        this.events.push(event);
+        this.dirty = true;
+        this.trim();
+
+        if (this.events.length >= this.options.batchSize) {
+            void this.flush();
+        } else {
+            this.schedule();
+        }
+    }
+
+    /**
+     * Sends all queued events in batches. Stops at the first transient or authentication failure, keeping the
+     * remaining events for the next flush; batches the server rejects as malformed are dropped.
+     * @returns Promise that never rejects; failures are reported in `error`.
+     */
+    public flush(): Promise<UsageFlushResult> {
+        if (!this.flushing) {
+            this.flushing = this.drain().finally(() => {
+                this.flushing = null;
+            });
+        }
+        return this.flushing;
+    }
+
+    /**
+     * Loads the events a previous process left in `storage` and schedules their flush.
+     */
+    public resume(): void {
+        void this.restore().then(() => this.schedule());
+    }
+
+    /**
+     * Cancels the scheduled flush and sends what is left, including events a previous process left in `storage`.
+     */
+    public async stop(): Promise<void> {
+        this.clearTimer();
+        await this.flush();
+        this.clearTimer();
+    }
+
+    private async drain(): Promise<UsageFlushResult> {
+        await this.restore();
+        this.clearTimer();
+        let sent = 0;
+
+        while (this.events.length > 0) {
+            const batch = this.events.slice(0, this.options.batchSize);
+            try {
+                await this.send(batch);
+                sent += batch.length;
+            } catch (error) {
+                const requestError = toRequestError(error);
+                if (isTransientError(requestError) || requestError instanceof AuthenticationError) {
+                    if (this.dirty) {
+                        await this.persist();
+                    }
+                    this.schedule();
+                    return { sent, pending: this.events.length, error: requestError };
+                }
+
+                // Replaying a batch the server refused would fail the same way, so it is dropped.
+                this.remove(batch);
+                this.onDrop(batch);
+                await this.persist();
+                return { sent, pending: this.events.length, error: requestError };
+            }
+
+            this.remove(batch);
+            await this.persist();
+        }
+
+        if (this.dirty) {
+            await this.persist();
+        }
+        return { sent, pending: 0, error: null };
+    }
+
+    private restore(): Promise<void> {
+        if (!this.restored) {
+            this.restored = this.storage.load().then(
+                (stored) => {
+                    const queued = new Set(this.events.map((event) => event.id));
+                    this.events = [...stored.filter((event) => !queued.has(event.id)), ...this.events];
+                    this.trim();
+                },
+                () => undefined
+            );
+        }
+        return this.restored;
+    }
+
+    private remove(batch: UsageEvent[]): void {
+        const ids = new Set(batch.map((event) => event.id));
+        this.events = this.events.filter((event) => !ids.has(event.id));
+    }
+
+    private trim(): void {
+        const excess = this.events.length - this.options.maxQueueSize;
+        if (excess > 0) {
+            this.onDrop(this.events.splice(0, excess));
+        }
+    }
+
+    private persist(): Promise<void> {
+        const snapshot = [...this.events];
+        this.dirty = false;
+        // Writes are chained so an older snapshot never overwrites a newer one.
+        this.saving = this.saving
+            .then(() => this.storage.save(snapshot))
+            .catch(() => {
+                // Events still go out from memory; only their survival across a restart is lost.
+            });
+        return this.saving;
+    }
+
+    private schedule(): void {
+        if (this.timer || this.events.length === 0) {
+            return;
+        }
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            void this.flush();
+        }, this.options.flushInterval);
+        this.timer.unref?.();
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+}
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileCacheStore, FileUsageStore, CacheEntry, UsageEvent } from '../src/index';
+
+const ENTRY: CacheEntry = {
+    timestamp: 1700000000000,
+    result: {
+        isValid: true,
+        reason: 'valid',
+        status: 'active',
+        expiresAt: new Date('2030-01-01T00:00:00.000Z'),
+        allowedData: { features: ['all'] },
+        lastCheckedAt: new Date('2023-11-14T22:13:20.000Z'),
+    },
+};
+
+describe('FileCacheStore', () => {
+    let directory: string;
+    let store: FileCacheStore;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'license-agent-'));
+        store = new FileCacheStore(directory);
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should return null for a missing entry', async () => {
+        await expect(store.get('missing')).resolves.toBeNull();
+    });
+
+    it('should round-trip entries including dates', async () => {
+        await store.set('key', ENTRY);
+
+        const entry = await store.get('key');
+
+        expect(entry).toEqual(ENTRY);
+        expect(entry?.result.expiresAt).toBeInstanceOf(Date);
+        expect(entry?.result.lastCheckedAt).toBeInstanceOf(Date);
+    });
+
+    it('should share entries between store instances', async () => {
+        await store.set('key', ENTRY);
+
+        await expect(new FileCacheStore(directory).get('key')).resolves.toEqual(ENTRY);
+    });
+
+    it('should not leave temporary files behind', async () => {
+        await Promise.all([store.set('key', ENTRY), store.set('key', { ...ENTRY, timestamp: 1 })]);
+
+        const files = await fs.readdir(directory);
+        expect(files).toHaveLength(1);
+        expect(files[0]).toMatch(/\.json$/);
+    });
+
+    it('should treat a corrupted file as empty', async () => {
+        await store.set('key', ENTRY);
+        const [file] = await fs.readdir(directory);
+        await fs.writeFile(path.join(directory, file), '{not json');
+
+        await expect(store.get('key')).resolves.toBeNull();
+    });
+
+    it('should delete entries and ignore missing ones', async () => {
+        await store.set('key', ENTRY);
+        await store.delete('key');
+
+        await expect(store.get('key')).resolves.toBeNull();
+        await expect(store.delete('key')).resolves.toBeUndefined();
+    });
+});
+
+describe('FileUsageStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'license-agent-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should keep usage next to cache entries of the same key', async () => {
+        const events: UsageEvent[] = [{ id: 'evt_1', metric: 'api_calls', quantity: 2, timestamp: 1700000000000 }];
+        await new FileCacheStore(directory).set('key', ENTRY);
+        await new FileUsageStore(directory).set('key', events);
+
+        await expect(new FileUsageStore(directory).get('key')).resolves.toEqual(events);
+        await expect(new FileCacheStore(directory).get('key')).resolves.toEqual(ENTRY);
+        await expect(new FileUsageStore(directory).get('missing')).resolves.toBeNull();
+    });
+});
@@ -1,5 +1,16 @@
 import axios from 'axios';
-import { LicenseAgent, LicenseAgentConfig, ValidationError, NetworkError, InvalidConfigError } from '../src/index';
+import {
+    LicenseAgent,
+    LicenseAgentConfig,
+    ValidationError,
+    NetworkError,
+    InvalidConfigError,
+    MemoryCacheStore,
+    AuthenticationError,
+    BadRequestError,
+    RateLimitedError,
+    ServerError,
+} from '../src/index';
 import type { ValidationApiResponse } from '../src/types';
 
 jest.mock('axios');
@@ -14,7 +25,9 @@ mockedAxios.create.mockReturnValue(mockedAxiosInstance as any);
 const BASE_CONFIG: LicenseAgentConfig = {
     serverUrl: 'http:localhost:8080',
     apiKey: 'prod_testprefix_testsecret',
+    licenseKey: 'LIC-123',
     productName: 'TestProduct',
+    fingerprint: false,
     cacheTTL: 1000,
     gracePeriod: 5000,
     requestTimeout: 500,
@@ -24,7 +37,7 @@ const VALID_RESPONSE: ValidationApiResponse = {
     is_valid: true,
     reason: 'valid',
     status: 'active',
-    expires_at: new Date(Date.now() + 100000).toISOString(),
+    expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
     allowed_data: { features: ['all'] },
 };
 
@@ -46,6 +59,9 @@ const INVALID_RESPONSE_NOT_FOUND: ValidationApiResponse = {
     reason: 'not_found',
 };
 
+const httpError = (status: number, data?: unknown, headers: Record<string, unknown> = {}) =>
+    Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, data, headers } });
+
 describe('LicenseAgent', () => {
     let agent: LicenseAgent;
 
@@ -74,6 +90,7 @@ describe('LicenseAgent', () => {
             const minimalConfig: LicenseAgentConfig = {
                 serverUrl: 'url',
                 apiKey: 'key',
+                licenseKey: 'LIC-123',
                 productName: 'p',
             };
             const defaultAgent = new LicenseAgent(minimalConfig);
@@ -103,7 +120,7 @@ describe('LicenseAgent', () => {
             expect(result.lastCheckedAt).toBeInstanceOf(Date);
             expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(1);
             expect(mockedAxiosInstance.post).toHaveBeenCalledWith('/licenses/validate', {
-                license_key: BASE_CONFIG.apiKey,
+                license_key: BASE_CONFIG.licenseKey,
                 product_name: BASE_CONFIG.productName,
             });
         });
@@ -236,6 +253,190 @@ describe('LicenseAgent', () => {
         });
     });
 
+    describe('cacheStore', () => {
+        it('should keep grace period across agent instances sharing a store', async () => {
+            jest.useFakeTimers();
+            const cacheStore = new MemoryCacheStore();
+
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: VALID_RESPONSE });
+            await new LicenseAgent({ ...BASE_CONFIG, cacheStore }).validate();
+
+            jest.advanceTimersByTime(BASE_CONFIG.cacheTTL! + 100);
+            mockedAxiosInstance.post.mockRejectedValueOnce(new Error('Connection refused'));
+
+            const result = await new LicenseAgent({ ...BASE_CONFIG, cacheStore }).validate();
+
+            expect(result.isValid).toBe(true);
+            expect(result.isGracePeriod).toBe(true);
+            expect(result.reason).toBe('grace_period');
+
+            jest.useRealTimers();
+        });
+
+        it('should fall back to an empty cache when the store fails', async () => {
+            const cacheStore = {
+                get: jest.fn().mockRejectedValue(new Error('EACCES')),
+                set: jest.fn().mockRejectedValue(new Error('EACCES')),
+                delete: jest.fn(),
+            };
+            mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+
+            const result = await new LicenseAgent({ ...BASE_CONFIG, cacheStore }).validate();
+
+            expect(result.isValid).toBe(true);
+            expect(cacheStore.set).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('HTTP error handling', () => {
+        it('should report an authentication error without grace period', async () => {
+            jest.useFakeTimers();
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: VALID_RESPONSE });
+            await agent.validate();
+            jest.advanceTimersByTime(BASE_CONFIG.cacheTTL! + 100);
+            mockedAxiosInstance.post.mockRejectedValueOnce(httpError(401, { detail: 'Invalid API key' }));
+
+            const result = await agent.validate();
+
+            expect(result.isValid).toBe(false);
+            expect(result.isGracePeriod).toBeUndefined();
+            expect(result.reason).toBe('authentication_failed');
+            expect(result.error).toBeInstanceOf(AuthenticationError);
+            expect(result.error).toMatchObject({ statusCode: 401, responseBody: { detail: 'Invalid API key' } });
+
+            jest.useRealTimers();
+        });
+
+        it('should report a bad request for other client errors', async () => {
+            mockedAxiosInstance.post.mockRejectedValue(httpError(404, 'Not Found'));
+
+            const result = await agent.validate();
+
+            expect(result.reason).toBe('bad_request');
+            expect(result.error).toBeInstanceOf(BadRequestError);
+            expect(result.error).toMatchObject({ statusCode: 404, responseBody: 'Not Found' });
+        });
+
+        it('should apply grace period to server errors', async () => {
+            jest.useFakeTimers();
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: VALID_RESPONSE });
+            await agent.validate();
+            jest.advanceTimersByTime(BASE_CONFIG.cacheTTL! + 100);
+            mockedAxiosInstance.post.mockRejectedValueOnce(httpError(502));
+
+            const result = await agent.validate();
+
+            expect(result.isValid).toBe(true);
+            expect(result.isGracePeriod).toBe(true);
+            expect(result.error).toBeInstanceOf(ServerError);
+            expect(result.error).toMatchObject({ statusCode: 502 });
+
+            jest.useRealTimers();
+        });
+
+        it('should apply grace period to request timeouts from a proxy', async () => {
+            jest.useFakeTimers();
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: VALID_RESPONSE });
+            await agent.validate();
+            jest.advanceTimersByTime(BASE_CONFIG.cacheTTL! + 100);
+            mockedAxiosInstance.post.mockRejectedValueOnce(httpError(408));
+
+            const result = await agent.validate();
+
+            expect(result).toMatchObject({ isValid: true, isGracePeriod: true, reason: 'grace_period' });
+            expect(result.error).toBeInstanceOf(ServerError);
+            expect(result.error).toMatchObject({ statusCode: 408 });
+
+            jest.useRealTimers();
+        });
+
+        it('should report rate limiting with the requested delay', async () => {
+            mockedAxiosInstance.post.mockRejectedValue(httpError(429, undefined, { 'retry-after': '30' }));
+
+            const result = await agent.validate();
+
+            expect(result.reason).toBe('network_error_no_cache');
+            expect(result.error).toBeInstanceOf(RateLimitedError);
+            expect(result.error).toMatchObject({ statusCode: 429, retryAfter: 30000 });
+        });
+
+        it('should surface authentication errors from checkOrThrow()', async () => {
+            mockedAxiosInstance.post.mockRejectedValue(httpError(403));
+
+            await expect(agent.checkOrThrow()).rejects.toThrow(AuthenticationError);
+        });
+    });
+
+    describe('request coalescing', () => {
+        it('should share one request between concurrent calls', async () => {
+            let resolvePost: (value: unknown) => void = () => undefined;
+            mockedAxiosInstance.post.mockReturnValue(new Promise((resolve) => (resolvePost = resolve)));
+
+            const pending = Promise.all([agent.validate(), agent.validate(), agent.validate()]);
+            await new Promise((resolve) => setImmediate(resolve));
+            resolvePost({ data: VALID_RESPONSE });
+            const results = await pending;
+
+            expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(1);
+            expect(results.map((result) => result.isValid)).toEqual([true, true, true]);
+            expect(results[0]).not.toBe(results[1]);
+        });
+
+        it('should not share requests with different metadata', async () => {
+            mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+
+            await Promise.all([agent.validate({ metadata: { a: 1 } }), agent.validate({ metadata: { a: 2 } })]);
+
+            expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('staleWhileRevalidate', () => {
+        it('should return a stale result immediately and refresh in the background', async () => {
+            jest.useFakeTimers();
+            const swrAgent = new LicenseAgent({ ...BASE_CONFIG, staleWhileRevalidate: 2000 });
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: VALID_RESPONSE });
+            await swrAgent.validate();
+            jest.advanceTimersByTime(BASE_CONFIG.cacheTTL! + 100);
+
+            let resolvePost: (value: unknown) => void = () => undefined;
+            mockedAxiosInstance.post.mockReturnValueOnce(new Promise((resolve) => (resolvePost = resolve)));
+            const stale = await swrAgent.validate();
+            const staleAgain = await swrAgent.validate();
+
+            expect(stale.isStale).toBe(true);
+            expect(stale.isValid).toBe(true);
+            expect(staleAgain.isStale).toBe(true);
+            expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(2);
+
+            resolvePost({ data: { ...VALID_RESPONSE, status: 'renewed' } });
+            await jest.advanceTimersByTimeAsync(0);
+            const fresh = await swrAgent.validate();
+
+            expect(fresh.isStale).toBeUndefined();
+            expect(fresh.status).toBe('renewed');
+            expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(2);
+
+            jest.useRealTimers();
+        });
+
+        it('should wait for the server once the stale window has passed', async () => {
+            jest.useFakeTimers();
+            const swrAgent = new LicenseAgent({ ...BASE_CONFIG, staleWhileRevalidate: 2000 });
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: VALID_RESPONSE });
+            await swrAgent.validate();
+            jest.advanceTimersByTime(BASE_CONFIG.cacheTTL! + 2000);
+
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: INVALID_RESPONSE_REVOKED });
+            const result = await swrAgent.validate();
+
+            expect(result.isStale).toBeUndefined();
+            expect(result.reason).toBe('revoked');
+
+            jest.useRealTimers();
+        });
+    });
+
     describe('forceValidate()', () => {
         it('should bypass cache and call API', async () => {
             mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
@@ -288,6 +489,36 @@ describe('LicenseAgent', () => {
         });
     });
 
+    describe('start()/stop()', () => {
+        it('should reject invalid revalidation options', () => {
+            expect(() => new LicenseAgent({ ...BASE_CONFIG, revalidation: { interval: -1 } })).toThrow(
+                InvalidConfigError
+            );
+            expect(() => new LicenseAgent({ ...BASE_CONFIG, revalidation: { jitter: 2 } })).toThrow(InvalidConfigError);
+        });
+
+        it('should validate in the background until stopped', async () => {
+            jest.useFakeTimers();
+            mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+            const background = new LicenseAgent({ ...BASE_CONFIG, revalidation: { interval: 2000, jitter: 0 } });
+
+            background.start();
+            expect(background.isRunning).toBe(true);
+            await jest.advanceTimersByTimeAsync(0);
+            expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(1);
+
+            await jest.advanceTimersByTimeAsync(2000);
+            expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(2);
+
+            await background.stop();
+            expect(background.isRunning).toBe(false);
+            await jest.advanceTimersByTimeAsync(10000);
+            expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(2);
+
+            jest.useRealTimers();
+        });
+    });
+
     describe('clearCache()', () => {
         it('should force API call after clearing cache', async () => {
             mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
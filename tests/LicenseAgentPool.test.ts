@@ -0,0 +1,228 @@
+import axios from 'axios';
+import {
+    LicenseAgentPool,
+    LicenseAgentPoolConfig,
+    LruCacheStore,
+    InvalidConfigError,
+    MemoryCacheStore,
+    MemoryUsageStore,
+} from '../src/index';
+import type { ValidationApiResponse } from '../src/types';
+
+jest.mock('axios');
+
+const mockedAxiosInstance = {
+    post: jest.fn(),
+};
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const POOL_CONFIG: LicenseAgentPoolConfig = {
+    serverUrl: 'http://localhost:8080',
+    apiKey: 'prod_testprefix_testsecret',
+    productName: 'TestProduct',
+    fingerprint: false,
+    cacheTTL: 1000,
+    gracePeriod: 5000,
+};
+
+const VALID_RESPONSE: ValidationApiResponse = { is_valid: true, reason: 'valid', status: 'active' };
+const REVOKED_RESPONSE: ValidationApiResponse = { is_valid: false, reason: 'revoked', status: 'revoked' };
+
+const respondByKey = (responses: Record<string, ValidationApiResponse | Error>) =>
+    mockedAxiosInstance.post.mockImplementation(async (_path: string, body: { license_key: string }) => {
+        const response = responses[body.license_key];
+        if (response instanceof Error) {
+            throw response;
+        }
+        return { data: response };
+    });
+
+describe('LicenseAgentPool', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockedAxios.create.mockReturnValue(mockedAxiosInstance as any);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should require serverUrl, apiKey and a valid maxEntries', () => {
+        expect(() => new LicenseAgentPool({ ...POOL_CONFIG, apiKey: '' })).toThrow(InvalidConfigError);
+        expect(() => new LicenseAgentPool({ ...POOL_CONFIG, maxEntries: 0 })).toThrow(InvalidConfigError);
+        expect(() => new LicenseAgentPool({ ...POOL_CONFIG, productName: undefined }).get('LIC-1')).toThrow(
+            InvalidConfigError
+        );
+    });
+
+    it('should share one HTTP client between all licenses', async () => {
+        respondByKey({ 'LIC-1': VALID_RESPONSE, 'LIC-2': VALID_RESPONSE });
+        const pool = new LicenseAgentPool(POOL_CONFIG);
+
+        await pool.validate({ licenseKey: 'LIC-1' });
+        await pool.validate({ licenseKey: 'LIC-2', productName: 'OtherProduct' });
+
+        expect(mockedAxios.create).toHaveBeenCalledTimes(1);
+        expect(mockedAxiosInstance.post).toHaveBeenCalledWith('/licenses/validate', {
+            license_key: 'LIC-2',
+            product_name: 'OtherProduct',
+        });
+    });
+
+    it('should reuse the agent and cache of a license', async () => {
+        respondByKey({ 'LIC-1': VALID_RESPONSE });
+        const pool = new LicenseAgentPool(POOL_CONFIG);
+
+        const first = await pool.validate({ licenseKey: 'LIC-1' });
+        await pool.validate({ licenseKey: 'LIC-1' });
+
+        expect(pool.get('LIC-1')).toBe(pool.get('LIC-1'));
+        expect(first).toMatchObject({ licenseKey: 'LIC-1', productName: 'TestProduct' });
+        expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep grace period semantics per license', async () => {
+        jest.useFakeTimers();
+        respondByKey({ 'LIC-1': VALID_RESPONSE });
+        const pool = new LicenseAgentPool(POOL_CONFIG);
+        await pool.validate({ licenseKey: 'LIC-1' });
+        jest.advanceTimersByTime(POOL_CONFIG.cacheTTL! + 100);
+
+        respondByKey({ 'LIC-1': new Error('ECONNREFUSED'), 'LIC-2': new Error('ECONNREFUSED') });
+        const { results } = await pool.validateMany([{ licenseKey: 'LIC-1' }, { licenseKey: 'LIC-2' }]);
+
+        expect(results[0].result).toMatchObject({ isValid: true, isGracePeriod: true });
+        expect(results[1].result).toMatchObject({ isValid: false, reason: 'network_error_no_cache' });
+    });
+
+    it('should evict the least recently used license', async () => {
+        respondByKey({ 'LIC-1': VALID_RESPONSE, 'LIC-2': VALID_RESPONSE, 'LIC-3': VALID_RESPONSE });
+        const pool = new LicenseAgentPool({ ...POOL_CONFIG, maxEntries: 2 });
+
+        await pool.validate({ licenseKey: 'LIC-1' });
+        await pool.validate({ licenseKey: 'LIC-2' });
+        await pool.validate({ licenseKey: 'LIC-1' });
+        await pool.validate({ licenseKey: 'LIC-3' });
+        await pool.validate({ licenseKey: 'LIC-1' });
+        await pool.validate({ licenseKey: 'LIC-2' });
+
+        expect(pool.size).toBe(2);
+        const requested = mockedAxiosInstance.post.mock.calls.map(([, body]) => body.license_key);
+        expect(requested).toEqual(['LIC-1', 'LIC-2', 'LIC-3']);
+    });
+
+    it('should keep the grace period of an evicted license', async () => {
+        jest.useFakeTimers();
+        respondByKey({ 'LIC-1': VALID_RESPONSE, 'LIC-2': VALID_RESPONSE });
+        const cacheStore = new MemoryCacheStore();
+        const pool = new LicenseAgentPool({ ...POOL_CONFIG, maxEntries: 1, cacheStore });
+
+        await pool.validate({ licenseKey: 'LIC-1' });
+        await pool.validate({ licenseKey: 'LIC-2' });
+        await Promise.resolve();
+        jest.advanceTimersByTime(POOL_CONFIG.cacheTTL! + 100);
+        respondByKey({ 'LIC-1': new Error('ECONNREFUSED') });
+        const { result } = await pool.validate({ licenseKey: 'LIC-1' });
+
+        expect(result).toMatchObject({ isValid: true, isGracePeriod: true });
+    });
+
+    it('should release the exit handlers of evicted and deleted licenses', async () => {
+        mockedAxiosInstance.post.mockResolvedValue({ data: { ...VALID_RESPONSE, activation_id: 'act_1' } });
+        const pool = new LicenseAgentPool({ ...POOL_CONFIG, maxEntries: 1 });
+        const listeners = process.listenerCount('beforeExit');
+
+        await pool.get('LIC-1').activate();
+        expect(process.listenerCount('beforeExit')).toBe(listeners + 1);
+        pool.get('LIC-2');
+        expect(process.listenerCount('beforeExit')).toBe(listeners);
+
+        await pool.get('LIC-2').activate();
+        await pool.delete('LIC-2');
+        expect(process.listenerCount('beforeExit')).toBe(listeners);
+    });
+
+    it('should keep the API key out of the serialized config', () => {
+        const pool = new LicenseAgentPool({ ...POOL_CONFIG, usageStore: new MemoryUsageStore() });
+
+        expect(JSON.stringify(pool)).not.toContain(POOL_CONFIG.apiKey);
+        expect(JSON.parse(JSON.stringify(pool.config))).toMatchObject({ usageStore: '[MemoryUsageStore]' });
+    });
+
+    it('should keep the unsent usage of an evicted license', async () => {
+        mockedAxiosInstance.post.mockRejectedValue(
+            Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' })
+        );
+        const usageStore = new MemoryUsageStore();
+        const pool = new LicenseAgentPool({ ...POOL_CONFIG, maxEntries: 1, usageStore });
+
+        const event = await pool.get('LIC-1').recordUsage('api_calls');
+        pool.get('LIC-2');
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(await usageStore.get('TestProduct:LIC-1')).toEqual([event]);
+        mockedAxiosInstance.post.mockResolvedValue({ data: {} });
+        expect(await pool.get('LIC-1').flushUsage()).toEqual({ sent: 1, pending: 0, error: null });
+    });
+
+    it('should validate a batch and emit aggregate results', async () => {
+        respondByKey({ 'LIC-1': VALID_RESPONSE, 'LIC-2': REVOKED_RESPONSE, 'LIC-3': VALID_RESPONSE });
+        const pool = new LicenseAgentPool(POOL_CONFIG);
+        const onResult = jest.fn();
+        const onBatch = jest.fn();
+        pool.on('result', onResult).on('batch', onBatch);
+
+        const summary = await pool.validateMany(
+            [{ licenseKey: 'LIC-1' }, { licenseKey: 'LIC-2' }, { licenseKey: 'LIC-3' }],
+            2
+        );
+
+        expect(summary.results.map(({ licenseKey, result }) => [licenseKey, result.isValid])).toEqual([
+            ['LIC-1', true],
+            ['LIC-2', false],
+            ['LIC-3', true],
+        ]);
+        expect(summary).toMatchObject({ valid: 2, invalid: 1, gracePeriod: 0, offline: 0 });
+        expect(onResult).toHaveBeenCalledTimes(3);
+        expect(onBatch).toHaveBeenCalledWith(summary);
+    });
+
+    it('should forget a deleted license', async () => {
+        respondByKey({ 'LIC-1': VALID_RESPONSE });
+        const pool = new LicenseAgentPool(POOL_CONFIG);
+        await pool.validate({ licenseKey: 'LIC-1' });
+
+        await pool.delete('LIC-1');
+        await pool.validate({ licenseKey: 'LIC-1' });
+
+        expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop the cached result of a deleted license that was evicted', async () => {
+        respondByKey({ 'LIC-1': VALID_RESPONSE, 'LIC-2': VALID_RESPONSE });
+        const pool = new LicenseAgentPool({ ...POOL_CONFIG, maxEntries: 1 });
+        await pool.validate({ licenseKey: 'LIC-1' });
+        await pool.validate({ licenseKey: 'LIC-2' });
+
+        await pool.delete('LIC-1');
+        await pool.validate({ licenseKey: 'LIC-1' });
+
+        expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(3);
+    });
+});
+
+describe('LruCacheStore', () => {
+    it('should evict the least recently used entry', async () => {
+        const store = new LruCacheStore(2);
+        const entry = { result: { isValid: true }, timestamp: 1 };
+
+        await store.set('a', entry);
+        await store.set('b', entry);
+        await store.get('a');
+        await store.set('c', entry);
+
+        await expect(store.get('a')).resolves.toEqual(entry);
+        await expect(store.get('b')).resolves.toBeNull();
+        expect(store.size).toBe(2);
+    });
+});
@@ -0,0 +1,135 @@
+import { RevalidationScheduler } from '../src/scheduler';
+import type { ValidationResult } from '../src/types';
+
+const OPTIONS = { interval: 1000, gracePeriodInterval: 250, jitter: 0 };
+
+const flush = () => new Promise<void>((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+describe('RevalidationScheduler', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should run immediately and then on every interval', async () => {
+        const task = jest.fn().mockResolvedValue({ isValid: true } as ValidationResult);
+        const scheduler = new RevalidationScheduler(task, OPTIONS);
+
+        scheduler.start();
+        await jest.advanceTimersByTimeAsync(0);
+        expect(task).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(999);
+        expect(task).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(task).toHaveBeenCalledTimes(2);
+
+        await scheduler.stop();
+    });
+
+    it('should use the shorter interval while offline', async () => {
+        const task = jest.fn().mockResolvedValue({ isValid: true, isOffline: true, isGracePeriod: true });
+        const scheduler = new RevalidationScheduler(task, OPTIONS);
+
+        scheduler.start();
+        await jest.advanceTimersByTimeAsync(0);
+        await jest.advanceTimersByTimeAsync(250);
+
+        expect(task).toHaveBeenCalledTimes(2);
+        await scheduler.stop();
+    });
+
+    it('should keep running when the task rejects', async () => {
+        const task = jest.fn().mockRejectedValue(new Error('boom'));
+        const scheduler = new RevalidationScheduler(task, OPTIONS);
+
+        scheduler.start();
+        await jest.advanceTimersByTimeAsync(0);
+        await jest.advanceTimersByTimeAsync(250);
+
+        expect(task).toHaveBeenCalledTimes(2);
+        await scheduler.stop();
+    });
+
+    it('should never overlap runs', async () => {
+        let resolveTask: (result: ValidationResult) => void = () => undefined;
+        const task = jest.fn(() => new Promise<ValidationResult>((resolve) => (resolveTask = resolve)));
+        const scheduler = new RevalidationScheduler(task, OPTIONS);
+
+        scheduler.start();
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(task).toHaveBeenCalledTimes(1);
+
+        resolveTask({ isValid: true });
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(task).toHaveBeenCalledTimes(2);
+
+        resolveTask({ isValid: true });
+        await scheduler.stop();
+    });
+
+    it('should wait for the in-flight run on stop and not schedule another', async () => {
+        let resolveTask: (result: ValidationResult) => void = () => undefined;
+        const task = jest.fn(() => new Promise<ValidationResult>((resolve) => (resolveTask = resolve)));
+        const scheduler = new RevalidationScheduler(task, OPTIONS);
+
+        scheduler.start();
+        await jest.advanceTimersByTimeAsync(0);
+
+        let stopped = false;
+        const stopping = scheduler.stop().then(() => (stopped = true));
+        await flush();
+        expect(stopped).toBe(false);
+
+        resolveTask({ isValid: true });
+        await stopping;
+        expect(scheduler.isActive).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(10000);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a single schedule when restarted while a run is in flight', async () => {
+        let resolveTask: (result: ValidationResult) => void = () => undefined;
+        const task = jest.fn(() => new Promise<ValidationResult>((resolve) => (resolveTask = resolve)));
+        const scheduler = new RevalidationScheduler(task, OPTIONS);
+
+        scheduler.start();
+        await jest.advanceTimersByTimeAsync(0);
+        const stopping = scheduler.stop();
+        scheduler.start();
+        resolveTask({ isValid: true });
+        await stopping;
+        await jest.advanceTimersByTimeAsync(0);
+        expect(task).toHaveBeenCalledTimes(2);
+
+        resolveTask({ isValid: true });
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(task).toHaveBeenCalledTimes(3);
+
+        resolveTask({ isValid: true });
+        await scheduler.stop();
+        await jest.advanceTimersByTimeAsync(10000);
+        expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('should apply jitter within the configured fraction', async () => {
+        jest.spyOn(Math, 'random').mockReturnValue(1);
+        const task = jest.fn().mockResolvedValue({ isValid: true });
+        const scheduler = new RevalidationScheduler(task, { ...OPTIONS, jitter: 0.5 });
+
+        scheduler.start();
+        await jest.advanceTimersByTimeAsync(0);
+        await jest.advanceTimersByTimeAsync(1499);
+        expect(task).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(task).toHaveBeenCalledTimes(2);
+
+        await scheduler.stop();
+        jest.spyOn(Math, 'random').mockRestore();
+    });
+});
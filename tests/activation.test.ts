@@ -0,0 +1,249 @@
+import axios from 'axios';
+import { LicenseAgent, LicenseAgentConfig, MemoryCacheStore, AuthenticationError } from '../src/index';
+import type { ActivationApiResponse } from '../src/types';
+
+jest.mock('axios');
+
+const mockedAxiosInstance = {
+    post: jest.fn(),
+};
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const httpError = (status: number, data?: unknown) =>
+    Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, data, headers: {} } });
+
+const BASE_CONFIG: LicenseAgentConfig = {
+    serverUrl: 'http://localhost:8080',
+    apiKey: 'prod_testprefix_testsecret',
+    licenseKey: 'LIC-123',
+    productName: 'TestProduct',
+    fingerprint: false,
+    deactivateOnExit: false,
+};
+
+const ACTIVATED: ActivationApiResponse = {
+    is_valid: true,
+    reason: 'valid',
+    status: 'active',
+    activation_id: 'act_1',
+};
+
+describe('LicenseAgent activation', () => {
+    let cacheStore: MemoryCacheStore;
+    let agent: LicenseAgent;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockedAxios.create.mockReturnValue(mockedAxiosInstance as any);
+        cacheStore = new MemoryCacheStore();
+        agent = new LicenseAgent({ ...BASE_CONFIG, cacheStore });
+    });
+
+    describe('activate()', () => {
+        it('should activate a seat and persist the activation id', async () => {
+            mockedAxiosInstance.post.mockResolvedValue({ data: ACTIVATED });
+
+            const result = await agent.activate({ metadata: { host: 'srv-1' } });
+
+            expect(result.isValid).toBe(true);
+            expect(result.activationId).toBe('act_1');
+            expect(mockedAxiosInstance.post).toHaveBeenCalledWith('/licenses/activate', {
+                license_key: 'LIC-123',
+                product_name: 'TestProduct',
+                metadata: { host: 'srv-1' },
+            });
+            await expect(new LicenseAgent({ ...BASE_CONFIG, cacheStore }).getActivationId()).resolves.toBe('act_1');
+        });
+
+        it('should reuse a persisted activation id', async () => {
+            mockedAxiosInstance.post.mockResolvedValue({ data: ACTIVATED });
+            await agent.activate();
+
+            await new LicenseAgent({ ...BASE_CONFIG, cacheStore }).activate();
+
+            expect(mockedAxiosInstance.post).toHaveBeenLastCalledWith(
+                '/licenses/activate',
+                expect.objectContaining({ activation_id: 'act_1' })
+            );
+        });
+
+        it('should report seat_limit_reached from the server', async () => {
+            mockedAxiosInstance.post.mockResolvedValueOnce({
+                data: { is_valid: false, reason: 'seat_limit_reached', status: 'active' },
+            });
+            mockedAxiosInstance.post.mockRejectedValueOnce(httpError(409, { detail: 'No seats left' }));
+
+            const fromBody = await agent.activate();
+            const fromStatus = await agent.activate();
+
+            expect(fromBody).toMatchObject({ isValid: false, reason: 'seat_limit_reached', activationId: null });
+            expect(fromStatus).toMatchObject({ isValid: false, reason: 'seat_limit_reached' });
+            await expect(agent.getActivationId()).resolves.toBeNull();
+        });
+
+        it('should report network failures as offline', async () => {
+            mockedAxiosInstance.post.mockRejectedValue(new Error('ECONNREFUSED'));
+
+            const result = await agent.activate();
+
+            expect(result).toMatchObject({ isValid: false, isOffline: true, reason: 'network_error' });
+        });
+    });
+
+    describe('heartbeat()', () => {
+        it('should report not_activated without an activation', async () => {
+            await expect(agent.heartbeat()).resolves.toMatchObject({ isValid: false, reason: 'not_activated' });
+            expect(mockedAxiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it('should send the activation id', async () => {
+            mockedAxiosInstance.post.mockResolvedValue({ data: ACTIVATED });
+            await agent.activate();
+
+            const result = await agent.heartbeat();
+
+            expect(result).toMatchObject({ isValid: true, activationId: 'act_1' });
+            expect(mockedAxiosInstance.post).toHaveBeenLastCalledWith('/licenses/heartbeat', {
+                license_key: 'LIC-123',
+                product_name: 'TestProduct',
+                activation_id: 'act_1',
+            });
+        });
+
+        it('should forget an activation the server rejects', async () => {
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: ACTIVATED });
+            await agent.activate();
+            mockedAxiosInstance.post.mockResolvedValueOnce({
+                data: { is_valid: false, reason: 'activation_not_found' },
+            });
+
+            const result = await agent.heartbeat();
+
+            expect(result.reason).toBe('activation_not_found');
+            await expect(agent.getActivationId()).resolves.toBeNull();
+        });
+
+        it('should keep the activation on transient failures', async () => {
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: ACTIVATED });
+            await agent.activate();
+            mockedAxiosInstance.post.mockRejectedValueOnce(httpError(503));
+
+            const result = await agent.heartbeat();
+
+            expect(result).toMatchObject({ isOffline: true, activationId: 'act_1' });
+            await expect(agent.getActivationId()).resolves.toBe('act_1');
+        });
+
+        it('should make entitlements of activation and heartbeat answers available', async () => {
+            mockedAxiosInstance.post.mockResolvedValueOnce({
+                data: { ...ACTIVATED, allowed_data: { features: ['export'] } },
+            });
+            await agent.activate();
+            expect(agent.hasFeature('export')).toBe(true);
+
+            mockedAxiosInstance.post.mockRejectedValueOnce(httpError(503));
+            await agent.heartbeat();
+            expect(agent.hasFeature('export')).toBe(true);
+
+            mockedAxiosInstance.post.mockResolvedValueOnce({
+                data: { is_valid: false, reason: 'activation_not_found' },
+            });
+            await agent.heartbeat();
+            expect(agent.hasFeature('export')).toBe(false);
+        });
+
+        it('should not read an expired license as entitled after a heartbeat', async () => {
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: ACTIVATED });
+            await agent.activate();
+            mockedAxiosInstance.post.mockResolvedValueOnce({
+                data: { ...ACTIVATED, expires_at: new Date(Date.now() - 1000).toISOString(), allowed_data: {} },
+            });
+
+            const result = await agent.heartbeat();
+
+            expect(result).toMatchObject({ isValid: false, reason: 'expired' });
+            expect(agent.getEntitlements()).toBeNull();
+        });
+
+        it('should leave validation events to validate()', async () => {
+            const listener = jest.fn();
+            (['valid', 'invalid', 'statusChanged'] as const).forEach((event) => agent.on(event, () => listener(event)));
+            mockedAxiosInstance.post.mockResolvedValue({ data: ACTIVATED });
+            await agent.validate();
+            await agent.activate();
+
+            mockedAxiosInstance.post.mockResolvedValueOnce({
+                data: { is_valid: false, reason: 'activation_not_found' },
+            });
+            await agent.heartbeat();
+            await agent.validate();
+
+            expect(listener.mock.calls).toEqual([['valid']]);
+        });
+
+        it('should run periodically once started', async () => {
+            jest.useFakeTimers();
+            mockedAxiosInstance.post.mockResolvedValue({ data: ACTIVATED });
+            const beating = new LicenseAgent({ ...BASE_CONFIG, cacheStore, heartbeat: { interval: 1000, jitter: 0 } });
+            await beating.activate();
+
+            beating.startHeartbeat();
+            await jest.advanceTimersByTimeAsync(2000);
+            await beating.stopHeartbeat();
+
+            const heartbeats = mockedAxiosInstance.post.mock.calls.filter(([path]) => path === '/licenses/heartbeat');
+            expect(heartbeats).toHaveLength(3);
+            jest.useRealTimers();
+        });
+    });
+
+    describe('deactivate()', () => {
+        it('should release the seat and forget the activation', async () => {
+            mockedAxiosInstance.post.mockResolvedValue({ data: ACTIVATED });
+            await agent.activate();
+
+            await agent.deactivate();
+
+            expect(mockedAxiosInstance.post).toHaveBeenLastCalledWith('/licenses/deactivate', {
+                license_key: 'LIC-123',
+                product_name: 'TestProduct',
+                activation_id: 'act_1',
+            });
+            await expect(agent.getActivationId()).resolves.toBeNull();
+        });
+
+        it('should treat an unknown activation as released', async () => {
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: ACTIVATED });
+            await agent.activate();
+            mockedAxiosInstance.post.mockRejectedValueOnce(httpError(404));
+
+            await expect(agent.deactivate()).resolves.toBeUndefined();
+            await expect(agent.getActivationId()).resolves.toBeNull();
+        });
+
+        it('should throw and keep the activation on other failures', async () => {
+            mockedAxiosInstance.post.mockResolvedValueOnce({ data: ACTIVATED });
+            await agent.activate();
+            mockedAxiosInstance.post.mockRejectedValueOnce(httpError(401));
+
+            await expect(agent.deactivate()).rejects.toThrow(AuthenticationError);
+            await expect(agent.getActivationId()).resolves.toBe('act_1');
+        });
+
+        it('should register exit handlers only when deactivateOnExit is enabled', async () => {
+            const before = process.listenerCount('SIGTERM');
+            mockedAxiosInstance.post.mockResolvedValue({ data: ACTIVATED });
+
+            await agent.activate();
+            expect(process.listenerCount('SIGTERM')).toBe(before);
+
+            const releasing = new LicenseAgent({ ...BASE_CONFIG, cacheStore, deactivateOnExit: true });
+            await releasing.activate();
+            expect(process.listenerCount('SIGTERM')).toBe(before + 1);
+            expect(process.listenerCount('beforeExit')).toBeGreaterThan(0);
+
+            await releasing.deactivate();
+            expect(process.listenerCount('SIGTERM')).toBe(before);
+        });
+    });
+});
@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli, ExitCode, CliIO } from '../src/cli';
+import { FileCacheStore, generateFingerprint } from '../src/index';
+import { MockLicenseServer } from '../src/testing';
+
+describe('license-agent CLI', () => {
+    let server: MockLicenseServer;
+    let directory: string;
+    let configPath: string;
+
+    const run = async (argv: string[], env: NodeJS.ProcessEnv = {}) => {
+        let stdout = '';
+        let stderr = '';
+        const io: CliIO = {
+            stdout: { write: (chunk: string) => (stdout += chunk) },
+            stderr: { write: (chunk: string) => (stderr += chunk) },
+            env,
+        };
+        const code = await runCli(argv, io);
+        return { code, stdout, stderr };
+    };
+
+    const connection = () => ['--server-url', server.url, '--api-key', 'test_api_key'];
+
+    beforeEach(async () => {
+        server = new MockLicenseServer();
+        await server.start();
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'license-agent-cli-'));
+        configPath = path.join(directory, 'config.json');
+        await fs.writeFile(
+            configPath,
+            JSON.stringify({
+                licenseKey: 'TEST-LICENSE-KEY',
+                productName: 'TestProduct',
+                fingerprint: false,
+                cacheDir: path.join(directory, 'cache'),
+            })
+        );
+    });
+
+    afterEach(async () => {
+        await server.stop();
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    describe('validate', () => {
+        it('should print a valid license and exit with 0', async () => {
+            const { code, stdout } = await run(['validate', '--config', configPath, ...connection()]);
+
+            expect(code).toBe(ExitCode.Valid);
+            expect(stdout).toContain('License:      valid');
+            expect(stdout).toContain('Status:       active');
+        });
+
+        it('should print JSON with --json', async () => {
+            server.setScenario('revoked');
+
+            const { code, stdout } = await run(['validate', '--json', '--config', configPath, ...connection()]);
+
+            expect(code).toBe(ExitCode.Invalid);
+            expect(JSON.parse(stdout)).toMatchObject({
+                isValid: false,
+                reason: 'revoked',
+                status: 'revoked',
+                error: null,
+                exitCode: ExitCode.Invalid,
+            });
+        });
+
+        it('should exit with 2 in grace period', async () => {
+            const config = JSON.parse(await fs.readFile(configPath, 'utf8'));
+            await fs.writeFile(configPath, JSON.stringify({ ...config, cacheTTL: 1 }));
+            await run(['validate', '--config', configPath, ...connection()]);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            server.setScenario('server_error');
+
+            const { code, stdout } = await run(['validate', '--config', configPath, ...connection()]);
+
+            expect(code).toBe(ExitCode.GracePeriod);
+            expect(stdout).toContain('License:      grace period (offline)');
+            expect(stdout).toContain('Error:        ServerError');
+        });
+
+        it('should exit with 3 on a network error without a usable cache', async () => {
+            server.setScenario('drop_connection');
+
+            const { code, stdout } = await run(['validate', '--config', configPath, ...connection()]);
+
+            expect(code).toBe(ExitCode.NetworkError);
+            expect(stdout).toContain('License:      invalid (offline)');
+        });
+
+        it('should read the connection from environment variables', async () => {
+            const { code } = await run(['validate', '--config', configPath], {
+                LICENSE_AGENT_SERVER_URL: server.url,
+                LICENSE_AGENT_API_KEY: 'test_api_key',
+            });
+
+            expect(code).toBe(ExitCode.Valid);
+        });
+
+        it('should let flags override environment variables and the config file', async () => {
+            const { code } = await run(
+                ['validate', '--license-key', 'FLAG-KEY', '--config', configPath, ...connection()],
+                {
+                    LICENSE_AGENT_LICENSE_KEY: 'ENV-KEY',
+                }
+            );
+
+            expect(code).toBe(ExitCode.Valid);
+            expect(server.requests[0].body.license_key).toBe('FLAG-KEY');
+        });
+
+        it('should report missing config with the usage exit code', async () => {
+            const { code, stderr } = await run(['validate', ...connection()]);
+
+            expect(code).toBe(ExitCode.UsageError);
+            expect(stderr).toContain('licenseKey is required; productName is required');
+        });
+    });
+
+    describe('inspect-cache and clear-cache', () => {
+        it('should show, then clear the persisted result', async () => {
+            await run(['validate', '--config', configPath, ...connection()]);
+
+            const inspected = await run(['inspect-cache', '--config', configPath]);
+            expect(inspected.code).toBe(ExitCode.Valid);
+            expect(inspected.stdout).toContain('Cache key:    TestProduct:TEST-LICENSE-KEY');
+            expect(inspected.stdout).toContain('Reason:       valid');
+
+            const cleared = await run(['clear-cache', '--config', configPath]);
+            expect(cleared.code).toBe(ExitCode.Valid);
+
+            const empty = await run(['inspect-cache', '--json', '--config', configPath]);
+            expect(empty.code).toBe(ExitCode.Invalid);
+            expect(JSON.parse(empty.stdout)).toEqual({ entry: null, activation: null });
+        });
+
+        it('should require a cache directory', async () => {
+            const { code, stderr } = await run(['inspect-cache', '--license-key', 'KEY', '--product', 'TestProduct']);
+
+            expect(code).toBe(ExitCode.UsageError);
+            expect(stderr).toContain('cache directory is required');
+        });
+    });
+
+    describe('fingerprint', () => {
+        it('should print the fingerprint as JSON', async () => {
+            const { code, stdout } = await run(['fingerprint', '--json']);
+
+            expect(code).toBe(ExitCode.Valid);
+            expect(JSON.parse(stdout)).toEqual(
+                expect.objectContaining({ id: expect.stringMatching(/^[0-9a-f]{64}$/), components: expect.any(Object) })
+            );
+            expect(JSON.parse(stdout).reconciled).toBe(false);
+        });
+
+        it('should print the id reconciled with the stored fingerprint', async () => {
+            const cacheDir = path.join(directory, 'cache');
+            const current = await generateFingerprint();
+            const stored = { ...current, id: 'f'.repeat(64) };
+            await new FileCacheStore(cacheDir).set('TestProduct:TEST-LICENSE-KEY', {
+                result: { isValid: true },
+                timestamp: Date.now(),
+                fingerprint: stored,
+            });
+
+            const { code, stdout, stderr } = await run([
+                'fingerprint',
+                '--json',
+                '--license-key',
+                'TEST-LICENSE-KEY',
+                '--product',
+                'TestProduct',
+                '--cache-dir',
+                cacheDir,
+            ]);
+
+            expect(code).toBe(ExitCode.Valid);
+            expect(JSON.parse(stdout)).toMatchObject({ id: stored.id, reconciled: true });
+            expect(stderr).toBe('');
+        });
+    });
+
+    it('should print usage for unknown commands', async () => {
+        const { code, stderr } = await run(['frobnicate']);
+
+        expect(code).toBe(ExitCode.UsageError);
+        expect(stderr).toContain('Unknown command: frobnicate');
+    });
+});
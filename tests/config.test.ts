@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    LicenseAgent,
+    LicenseAgentConfig,
+    InvalidConfigError,
+    FileCacheStore,
+    configFromEnv,
+    redactConfig,
+    validateConfig,
+} from '../src/index';
+
+const BASE_CONFIG: LicenseAgentConfig = {
+    serverUrl: 'http://localhost:8080',
+    apiKey: 'prod_testprefix_testsecret',
+    licenseKey: 'LIC-123',
+    productName: 'TestProduct',
+    fingerprint: false,
+};
+
+const ENV = {
+    LICENSE_AGENT_SERVER_URL: 'http://localhost:8080',
+    LICENSE_AGENT_API_KEY: 'prod_testprefix_testsecret',
+    LICENSE_AGENT_LICENSE_KEY: 'LIC-123',
+    LICENSE_AGENT_PRODUCT_NAME: 'TestProduct',
+    LICENSE_AGENT_FINGERPRINT: 'false',
+};
+
+describe('config', () => {
+    describe('validation', () => {
+        it('should list every problem field in one InvalidConfigError', () => {
+            const error = (() => {
+                try {
+                    new LicenseAgent({ ...BASE_CONFIG, licenseKey: '', apiKey: '', cacheTTL: -1, requestTimeout: 0 });
+                } catch (e) {
+                    return e as InvalidConfigError;
+                }
+            })();
+
+            expect(error).toBeInstanceOf(InvalidConfigError);
+            expect(error!.problems.map((problem) => problem.field)).toEqual([
+                'apiKey',
+                'licenseKey',
+                'cacheTTL',
+                'requestTimeout',
+            ]);
+            expect(error!.message).toBe(
+                'Invalid license agent config: apiKey is required; licenseKey is required; ' +
+                    'cacheTTL must be a non-negative number; requestTimeout must be a positive number'
+            );
+        });
+
+        it('should list problems of nested options together', () => {
+            const problems = validateConfig({
+                ...BASE_CONFIG,
+                revalidation: { jitter: 2 },
+                heartbeat: { interval: 0 },
+                retry: { maxAttempts: 0, deadline: -1 },
+                usage: { batchSize: 50, maxQueueSize: 10 },
+                failover: { failureThreshold: 1.5 },
+            });
+
+            expect(problems).toEqual([
+                { field: 'revalidation', message: 'revalidation.jitter must be between 0 and 1' },
+                { field: 'heartbeat', message: 'heartbeat intervals must be positive numbers' },
+                { field: 'retry', message: 'retry.maxAttempts must be a positive integer' },
+                { field: 'retry', message: 'retry.deadline must be a positive number' },
+                { field: 'usage', message: 'usage.maxQueueSize must be an integer not smaller than usage.batchSize' },
+                { field: 'failover', message: 'failover.failureThreshold must be a positive integer' },
+            ]);
+            expect(
+                () => new LicenseAgent({ ...BASE_CONFIG, retry: { jitter: 2 }, usage: { flushInterval: 0 } })
+            ).toThrow(
+                expect.objectContaining({
+                    problems: [
+                        expect.objectContaining({ field: 'retry' }),
+                        expect.objectContaining({ field: 'usage' }),
+                    ],
+                })
+            );
+        });
+
+        it('should reject a grace period shorter than the cache TTL', () => {
+            expect(validateConfig({ ...BASE_CONFIG, cacheTTL: 5000, gracePeriod: 1000 })).toEqual([
+                { field: 'gracePeriod', message: 'gracePeriod must not be shorter than cacheTTL' },
+            ]);
+            expect(() => new LicenseAgent({ ...BASE_CONFIG, cacheTTL: 5000, gracePeriod: 1000 })).toThrow(
+                InvalidConfigError
+            );
+        });
+
+        it('should check the grace period against the default cache TTL', () => {
+            expect(() => new LicenseAgent({ ...BASE_CONFIG, gracePeriod: 1000 })).toThrow(/gracePeriod/);
+        });
+
+        it('should accept a complete config', () => {
+            expect(validateConfig({ ...BASE_CONFIG, cacheTTL: 1000, gracePeriod: 1000 })).toEqual([]);
+        });
+    });
+
+    describe('LicenseAgent.fromEnv()', () => {
+        it('should read LICENSE_AGENT_* variables', () => {
+            const agent = LicenseAgent.fromEnv(
+                {},
+                {
+                    ...ENV,
+                    LICENSE_AGENT_CACHE_TTL: '60000',
+                    LICENSE_AGENT_GRACE_PERIOD: '120000',
+                    LICENSE_AGENT_DEACTIVATE_ON_EXIT: 'no',
+                    LICENSE_AGENT_CACHE_DIR: '/tmp/license-cache',
+                }
+            );
+
+            expect(agent.config).toMatchObject({
+                ...BASE_CONFIG,
+                cacheTTL: 60000,
+                gracePeriod: 120000,
+                deactivateOnExit: false,
+            });
+            expect(agent.config.cacheStore).toBeInstanceOf(FileCacheStore);
+        });
+
+        it('should let overrides win over the environment', () => {
+            const agent = LicenseAgent.fromEnv({ licenseKey: 'OVERRIDE' }, ENV);
+
+            expect(agent.config.licenseKey).toBe('OVERRIDE');
+        });
+
+        it('should report malformed and missing variables', () => {
+            expect(() =>
+                LicenseAgent.fromEnv({}, { LICENSE_AGENT_CACHE_TTL: 'soon', LICENSE_AGENT_DEACTIVATE_ON_EXIT: 'maybe' })
+            ).toThrow(
+                'Invalid license agent config: serverUrl is required; apiKey is required; licenseKey is required; ' +
+                    'productName is required; cacheTTL must be a non-negative number; deactivateOnExit must be a boolean'
+            );
+        });
+
+        it('should skip empty variables', () => {
+            expect(configFromEnv({ ...ENV, LICENSE_AGENT_CACHE_TTL: '' })).not.toHaveProperty('cacheTTL');
+        });
+    });
+
+    describe('LicenseAgent.fromFile()', () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await fs.mkdtemp(path.join(os.tmpdir(), 'license-agent-config-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(directory, { recursive: true, force: true });
+        });
+
+        it('should read a JSON config with a cache directory', async () => {
+            const filePath = path.join(directory, 'license-agent.json');
+            await fs.writeFile(filePath, JSON.stringify({ ...BASE_CONFIG, cacheDir: directory, cacheTTL: 1000 }));
+
+            const agent = await LicenseAgent.fromFile(filePath, { gracePeriod: 2000 });
+
+            expect(agent.config).toMatchObject({ ...BASE_CONFIG, cacheTTL: 1000, gracePeriod: 2000 });
+            expect(agent.config.cacheStore).toBeInstanceOf(FileCacheStore);
+            expect(agent.config).not.toHaveProperty('cacheDir');
+        });
+
+        it('should fail with InvalidConfigError for unreadable files', async () => {
+            await fs.writeFile(path.join(directory, 'broken.json'), '{');
+
+            await expect(LicenseAgent.fromFile(path.join(directory, 'missing.json'))).rejects.toThrow(
+                InvalidConfigError
+            );
+            await expect(LicenseAgent.fromFile(path.join(directory, 'broken.json'))).rejects.toThrow(
+                InvalidConfigError
+            );
+        });
+    });
+
+    describe('toJSON()', () => {
+        it('should keep the API key out of serialized config', () => {
+            const agent = new LicenseAgent(BASE_CONFIG);
+
+            for (const serialized of [JSON.stringify(agent), JSON.stringify(agent.config)]) {
+                const parsed = JSON.parse(serialized);
+                expect(serialized).not.toContain(BASE_CONFIG.apiKey);
+                expect(parsed).toMatchObject({
+                    apiKey: '[REDACTED]',
+                    licenseKey: 'LIC-123',
+                    cacheStore: '[MemoryCacheStore]',
+                });
+            }
+        });
+
+        it('should redact objects without a prototype or constructor', () => {
+            const staticMetadata = Object.assign(Object.create(null), { region: 'eu' });
+            const logger = Object.assign(Object.create({ constructor: undefined }), { info: () => undefined });
+
+            expect(redactConfig({ ...BASE_CONFIG, staticMetadata, logger })).toMatchObject({
+                staticMetadata: { region: 'eu' },
+                logger: '[Object]',
+            });
+        });
+    });
+});
@@ -0,0 +1,117 @@
+import axios from 'axios';
+import { LicenseAgent, LicenseAgentConfig, FeatureNotEntitledError, ValidationError } from '../src/index';
+import type { ValidationApiResponse } from '../src/types';
+
+jest.mock('axios');
+
+const mockedAxiosInstance = {
+    post: jest.fn(),
+};
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+interface TestEntitlements {
+    features: Array<'sso' | 'audit' | 'export'>;
+    limits: { seats: number; projects: number };
+}
+
+const BASE_CONFIG: LicenseAgentConfig = {
+    serverUrl: 'http://localhost:8080',
+    apiKey: 'prod_testprefix_testsecret',
+    licenseKey: 'LIC-123',
+    productName: 'TestProduct',
+    fingerprint: false,
+    cacheTTL: 1000,
+    gracePeriod: 5000,
+};
+
+const VALID_RESPONSE: ValidationApiResponse<TestEntitlements> = {
+    is_valid: true,
+    reason: 'valid',
+    status: 'active',
+    allowed_data: { features: ['sso', 'audit'], limits: { seats: 10, projects: 3 } },
+};
+
+describe('LicenseAgent entitlements', () => {
+    let agent: LicenseAgent<TestEntitlements>;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockedAxios.create.mockReturnValue(mockedAxiosInstance as any);
+        agent = new LicenseAgent<TestEntitlements>(BASE_CONFIG);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should report nothing before the first validation', () => {
+        expect(agent.getEntitlements()).toBeNull();
+        expect(agent.hasFeature('sso')).toBe(false);
+        expect(agent.getLimit('seats')).toBeNull();
+        expect(() => agent.checkFeatureOrThrow('sso')).toThrow(
+            expect.objectContaining({ name: 'FeatureNotEntitledError', reason: 'not_validated' })
+        );
+    });
+
+    it('should read features and limits from the last result', async () => {
+        mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+        await agent.validate();
+
+        expect(agent.getEntitlements()).toEqual(VALID_RESPONSE.allowed_data);
+        expect(agent.hasFeature('sso')).toBe(true);
+        expect(agent.hasFeature('export')).toBe(false);
+        expect(agent.getLimit('seats')).toBe(10);
+        expect(() => agent.checkFeatureOrThrow('audit')).not.toThrow();
+    });
+
+    it('should support features given as a boolean map', async () => {
+        const mapAgent = new LicenseAgent<{ features: { sso: boolean; audit: boolean } }>(BASE_CONFIG);
+        mockedAxiosInstance.post.mockResolvedValue({
+            data: { ...VALID_RESPONSE, allowed_data: { features: { sso: true, audit: false } } },
+        });
+        await mapAgent.validate();
+
+        expect(mapAgent.hasFeature('sso')).toBe(true);
+        expect(mapAgent.hasFeature('audit')).toBe(false);
+    });
+
+    it('should throw FeatureNotEntitledError for a missing feature', async () => {
+        mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+        await agent.validate();
+
+        let error: unknown;
+        try {
+            agent.checkFeatureOrThrow('export');
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(FeatureNotEntitledError);
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error).toMatchObject({ feature: 'export', reason: 'feature_not_entitled', status: 'active' });
+    });
+
+    it('should grant nothing when the license is invalid', async () => {
+        mockedAxiosInstance.post.mockResolvedValue({ data: { ...VALID_RESPONSE, is_valid: false, reason: 'revoked' } });
+        await agent.validate();
+
+        expect(agent.getEntitlements()).toBeNull();
+        expect(agent.hasFeature('sso')).toBe(false);
+        expect(() => agent.checkFeatureOrThrow('sso')).toThrow(expect.objectContaining({ reason: 'revoked' }));
+    });
+
+    it('should keep entitlements during grace period and drop them once it ends', async () => {
+        jest.useFakeTimers();
+        mockedAxiosInstance.post.mockResolvedValueOnce({ data: VALID_RESPONSE });
+        await agent.validate();
+        jest.advanceTimersByTime(BASE_CONFIG.cacheTTL! + 100);
+        mockedAxiosInstance.post.mockRejectedValue(new Error('Connection refused'));
+
+        const result = await agent.validate();
+        expect(result.isGracePeriod).toBe(true);
+        expect(agent.hasFeature('sso')).toBe(true);
+
+        jest.advanceTimersByTime(BASE_CONFIG.gracePeriod!);
+        expect(agent.hasFeature('sso')).toBe(false);
+    });
+});
@@ -0,0 +1,209 @@
+import axios from 'axios';
+import { LicenseAgent, LicenseAgentConfig, MemoryCacheStore, detectTransitions } from '../src/index';
+import type { ValidationApiResponse, ValidationResult } from '../src/types';
+
+jest.mock('axios');
+
+const mockedAxiosInstance = {
+    post: jest.fn(),
+};
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const BASE_CONFIG: LicenseAgentConfig = {
+    serverUrl: 'http://localhost:8080',
+    apiKey: 'prod_testprefix_testsecret',
+    licenseKey: 'LIC-123',
+    productName: 'TestProduct',
+    fingerprint: false,
+    cacheTTL: 1000,
+    gracePeriod: 5000,
+};
+
+const VALID_RESPONSE: ValidationApiResponse = {
+    is_valid: true,
+    reason: 'valid',
+    status: 'active',
+    expires_at: new Date(Date.now() + 30 * DAY).toISOString(),
+};
+
+const names = (transitions: ReturnType<typeof detectTransitions>) => transitions.map(([event]) => event);
+
+describe('detectTransitions()', () => {
+    const valid: ValidationResult = { isValid: true, status: 'active' };
+    const at = Date.now();
+
+    it('should report the initial state', () => {
+        expect(names(detectTransitions(null, { result: valid, at }, DAY))).toEqual(['valid']);
+        expect(names(detectTransitions(null, { result: { isValid: false, isOffline: true }, at }, DAY))).toEqual([
+            'invalid',
+            'offline',
+        ]);
+    });
+
+    it('should report nothing when the state did not change', () => {
+        expect(detectTransitions({ result: valid, at }, { result: { ...valid }, at: at + 1 }, DAY)).toEqual([]);
+    });
+
+    it('should report grace period and recovery transitions', () => {
+        const grace: ValidationResult = { ...valid, isOffline: true, isGracePeriod: true };
+        const expired: ValidationResult = { ...valid, isValid: false, isOffline: true, isGracePeriod: false };
+
+        expect(names(detectTransitions({ result: valid, at }, { result: grace, at }, DAY))).toEqual([
+            'offline',
+            'gracePeriodEntered',
+        ]);
+        expect(names(detectTransitions({ result: grace, at }, { result: expired, at }, DAY))).toEqual([
+            'invalid',
+            'gracePeriodExpired',
+        ]);
+        expect(names(detectTransitions({ result: expired, at }, { result: valid, at }, DAY))).toEqual([
+            'valid',
+            'recovered',
+        ]);
+    });
+
+    it('should report status changes with previous and next status', () => {
+        const [transition] = detectTransitions(
+            { result: { isValid: false, status: 'suspended' }, at },
+            { result: { isValid: false, status: 'revoked' }, at },
+            DAY
+        );
+
+        expect(transition).toEqual([
+            'statusChanged',
+            expect.objectContaining({ previous: 'suspended', next: 'revoked' }),
+        ]);
+    });
+
+    it('should report expiringSoon once when entering the window', () => {
+        const expiring: ValidationResult = { ...valid, expiresAt: new Date(at + 2 * DAY) };
+
+        expect(names(detectTransitions({ result: expiring, at: at - 2 * DAY }, { result: expiring, at }, DAY))).toEqual(
+            []
+        );
+        expect(
+            names(detectTransitions({ result: expiring, at: at - 1 }, { result: expiring, at: at + DAY }, DAY))
+        ).toEqual(['expiringSoon']);
+        expect(
+            names(detectTransitions({ result: expiring, at: at + DAY }, { result: expiring, at: at + DAY + 1 }, DAY))
+        ).toEqual([]);
+    });
+});
+
+describe('LicenseAgent events', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockedAxios.create.mockReturnValue(mockedAxiosInstance as any);
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should emit events only on real transitions', async () => {
+        const agent = new LicenseAgent(BASE_CONFIG);
+        const listener = jest.fn();
+        const events = [
+            'valid',
+            'invalid',
+            'offline',
+            'recovered',
+            'gracePeriodEntered',
+            'gracePeriodExpired',
+        ] as const;
+        events.forEach((event) => agent.on(event, () => listener(event)));
+
+        mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+        await agent.validate();
+        await agent.validate();
+        expect(listener.mock.calls).toEqual([['valid']]);
+
+        jest.advanceTimersByTime(BASE_CONFIG.cacheTTL! + 100);
+        mockedAxiosInstance.post.mockRejectedValue(new Error('Connection refused'));
+        await agent.validate();
+        await agent.validate();
+        expect(listener.mock.calls.slice(1)).toEqual([['offline'], ['gracePeriodEntered']]);
+
+        jest.advanceTimersByTime(BASE_CONFIG.gracePeriod!);
+        await agent.validate();
+        expect(listener.mock.calls.slice(3)).toEqual([['invalid'], ['gracePeriodExpired']]);
+
+        mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+        await agent.validate();
+        expect(listener.mock.calls.slice(5)).toEqual([['valid'], ['recovered']]);
+    });
+
+    it('should not repeat transitions while serving stale results with the server down', async () => {
+        const gracePeriodEntered = jest.fn();
+        const agent = new LicenseAgent({
+            ...BASE_CONFIG,
+            staleWhileRevalidate: 2000,
+            retry: { maxAttempts: 1 },
+            metrics: { gracePeriodEntered },
+        });
+        const listener = jest.fn();
+        (['valid', 'invalid', 'offline', 'recovered', 'gracePeriodEntered'] as const).forEach((event) =>
+            agent.on(event, () => listener(event))
+        );
+
+        mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+        await agent.validate();
+        jest.advanceTimersByTime(BASE_CONFIG.cacheTTL! + 100);
+        mockedAxiosInstance.post.mockRejectedValue(new Error('Connection refused'));
+
+        for (let i = 0; i < 3; i++) {
+            const result = await agent.validate();
+            await jest.advanceTimersByTimeAsync(0);
+            if (i > 0) {
+                expect(result).toMatchObject({ isStale: true, isOffline: true, isGracePeriod: true });
+            }
+        }
+
+        expect(listener.mock.calls).toEqual([['valid'], ['offline'], ['gracePeriodEntered']]);
+        expect(gracePeriodEntered).toHaveBeenCalledTimes(1);
+    });
+
+    it('should compare against the persisted cache after a restart', async () => {
+        const cacheStore = new MemoryCacheStore();
+        mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+        await new LicenseAgent({ ...BASE_CONFIG, cacheStore }).validate();
+
+        const restarted = new LicenseAgent({ ...BASE_CONFIG, cacheStore });
+        const onValid = jest.fn();
+        const onStatusChanged = jest.fn();
+        restarted.on('valid', onValid).on('statusChanged', onStatusChanged);
+
+        jest.advanceTimersByTime(BASE_CONFIG.cacheTTL! + 100);
+        mockedAxiosInstance.post.mockResolvedValue({ data: { ...VALID_RESPONSE, status: 'trial' } });
+        await restarted.validate();
+
+        expect(onValid).not.toHaveBeenCalled();
+        expect(onStatusChanged).toHaveBeenCalledWith(expect.objectContaining({ previous: 'active', next: 'trial' }));
+    });
+
+    it('should emit expiringSoon inside the configured window', async () => {
+        const agent = new LicenseAgent({ ...BASE_CONFIG, expiringSoonWindow: 60 * DAY });
+        const onExpiringSoon = jest.fn();
+        agent.on('expiringSoon', onExpiringSoon);
+        mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+
+        await agent.validate();
+        await agent.forceValidate();
+
+        expect(onExpiringSoon).toHaveBeenCalledTimes(1);
+        expect(onExpiringSoon.mock.calls[0][0].isValid).toBe(true);
+    });
+
+    it('should not let a throwing listener break validation', async () => {
+        const agent = new LicenseAgent(BASE_CONFIG);
+        agent.on('valid', () => {
+            throw new Error('listener failure');
+        });
+        mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+
+        await expect(agent.validate()).resolves.toMatchObject({ isValid: true });
+    });
+});
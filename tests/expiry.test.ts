@@ -0,0 +1,172 @@
+import { LicenseAgent, LicenseAgentConfig, ScriptedTransport, MemoryCacheStore, ValidationError } from '../src/index';
+import { ManualClock } from '../src/testing';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const START = new Date('2030-01-01T00:00:00Z').getTime();
+
+describe('expiry and clock tampering', () => {
+    let clock: ManualClock;
+    let transport: ScriptedTransport;
+
+    const createAgent = (config: Partial<LicenseAgentConfig> = {}) =>
+        new LicenseAgent({
+            serverUrl: 'http://localhost:8080',
+            apiKey: 'prod_testprefix_testsecret',
+            licenseKey: 'LIC-123',
+            productName: 'TestProduct',
+            fingerprint: false,
+            cacheTTL: MINUTE,
+            gracePeriod: DAY,
+            clock,
+            transport,
+            ...config,
+        });
+
+    const validUntil = (expiresAt: number, headers: Record<string, string> = {}) => ({
+        data: { is_valid: true, reason: 'valid', status: 'active', expires_at: new Date(expiresAt).toISOString() },
+        headers,
+    });
+
+    beforeEach(() => {
+        clock = new ManualClock(START);
+        transport = new ScriptedTransport();
+    });
+
+    describe('expiry', () => {
+        it('should invalidate a cached result once expiresAt has passed', async () => {
+            transport.reply('/licenses/validate', validUntil(START + 30 * MINUTE));
+            const agent = createAgent({ cacheTTL: DAY, gracePeriod: DAY, expiringSoonWindow: 0 });
+
+            expect((await agent.validate()).reason).toBe('valid');
+            clock.advance(31 * MINUTE);
+            const result = await agent.validate();
+
+            expect(result).toMatchObject({ isValid: false, reason: 'expired', status: 'active' });
+            expect(transport.requests).toHaveLength(1);
+            await expect(agent.checkOrThrow()).rejects.toThrow(ValidationError);
+        });
+
+        it('should invalidate a grace-period result once expiresAt has passed', async () => {
+            transport.reply('/licenses/validate', validUntil(START + 2 * MINUTE)).replyAlways('/licenses/validate', {
+                networkError: true,
+            });
+            const agent = createAgent({ expiringSoonWindow: 0 });
+
+            await agent.validate();
+            clock.advance(90 * 1000);
+            expect((await agent.validate()).reason).toBe('grace_period');
+
+            clock.advance(MINUTE);
+            expect(await agent.validate()).toMatchObject({ isValid: false, isGracePeriod: false, reason: 'expired' });
+        });
+
+        it('should report expiring_soon within the configured window', async () => {
+            transport.replyAlways('/licenses/validate', validUntil(START + 3 * DAY));
+            const agent = createAgent({ expiringSoonWindow: 2 * DAY });
+
+            expect((await agent.validate()).reason).toBe('valid');
+            clock.advance(DAY + MINUTE);
+            expect(await agent.validate()).toMatchObject({ isValid: true, reason: 'expiring_soon' });
+        });
+
+        it('should correct expiry checks by the server clock from the Date header', async () => {
+            // The local clock is an hour behind the server.
+            const serverDate = new Date(START + 60 * MINUTE).toUTCString();
+            transport.reply('/licenses/validate', validUntil(START + 90 * MINUTE, { Date: serverDate }));
+            const agent = createAgent({ cacheTTL: DAY, expiringSoonWindow: 0 });
+
+            expect((await agent.validate()).reason).toBe('valid');
+            clock.advance(31 * MINUTE);
+
+            expect((await agent.validate()).reason).toBe('expired');
+        });
+
+        it('should keep the server clock offset across restarts', async () => {
+            const cacheStore = new MemoryCacheStore();
+            const serverDate = new Date(START + 60 * MINUTE).toUTCString();
+            transport.reply('/licenses/validate', validUntil(START + 90 * MINUTE, { Date: serverDate }));
+            await createAgent({ cacheStore, cacheTTL: DAY, expiringSoonWindow: 0 }).validate();
+
+            clock.advance(31 * MINUTE);
+            const restarted = createAgent({ cacheStore, cacheTTL: DAY, expiringSoonWindow: 0 });
+
+            expect((await restarted.validate()).reason).toBe('expired');
+        });
+    });
+
+    describe('clock rollback', () => {
+        it('should report clock_tampered instead of the grace period when the clock goes back offline', async () => {
+            transport.reply('/licenses/validate', validUntil(START + 30 * DAY)).replyAlways('/licenses/validate', {
+                networkError: true,
+            });
+            const agent = createAgent();
+
+            await agent.validate();
+            clock.advance(2 * MINUTE);
+            expect((await agent.validate()).reason).toBe('grace_period');
+
+            clock.set(START - DAY);
+            const result = await agent.validate();
+
+            expect(result).toMatchObject({ isValid: false, isOffline: true, reason: 'clock_tampered' });
+            expect(transport.requests).toHaveLength(3);
+        });
+
+        it('should not serve the cache after a rollback and recover once the server answers', async () => {
+            transport.replyAlways('/licenses/validate', validUntil(START + 30 * DAY));
+            const agent = createAgent({ cacheTTL: DAY });
+
+            await agent.validate();
+            clock.set(START - 10 * MINUTE);
+            const result = await agent.validate();
+
+            expect(result).toMatchObject({ isValid: true, reason: 'valid' });
+            expect(transport.requests).toHaveLength(2);
+        });
+
+        it('should detect a rollback across restarts from the persisted last-seen time', async () => {
+            const cacheStore = new MemoryCacheStore();
+            transport.reply('/licenses/validate', validUntil(START + 30 * DAY)).replyAlways('/licenses/validate', {
+                networkError: true,
+            });
+            await createAgent({ cacheStore }).validate();
+            clock.advance(12 * 60 * MINUTE);
+            await createAgent({ cacheStore }).validate();
+
+            clock.set(START + 2 * MINUTE);
+            const result = await createAgent({ cacheStore }).validate();
+
+            expect(result.reason).toBe('clock_tampered');
+        });
+
+        it('should tolerate small backward steps', async () => {
+            transport.reply('/licenses/validate', validUntil(START + 30 * DAY)).replyAlways('/licenses/validate', {
+                networkError: true,
+            });
+            const agent = createAgent({ clockRollbackTolerance: 5 * MINUTE });
+
+            await agent.validate();
+            clock.advance(10 * MINUTE);
+            await agent.validate();
+            clock.advance(-4 * MINUTE);
+
+            expect((await agent.validate()).reason).toBe('grace_period');
+        });
+
+        it('should not reopen an ended grace period by a small backward step', async () => {
+            transport.reply('/licenses/validate', validUntil(START + 30 * DAY)).replyAlways('/licenses/validate', {
+                networkError: true,
+            });
+            const agent = createAgent({ clockRollbackTolerance: 5 * MINUTE });
+
+            await agent.validate();
+            clock.advance(DAY + MINUTE);
+            expect((await agent.validate()).isGracePeriod).toBe(false);
+            clock.advance(-4 * MINUTE);
+
+            expect(await agent.validate()).toMatchObject({ isValid: false, isGracePeriod: false });
+            expect(agent.hasFeature('export')).toBe(false);
+        });
+    });
+});
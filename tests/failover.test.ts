@@ -0,0 +1,217 @@
+import {
+    EndpointHealth,
+    FailoverTransport,
+    LicenseAgent,
+    ScriptedTransport,
+    AuthenticationError,
+    NetworkError,
+    parseValidationResponse,
+} from '../src/index';
+import { ManualClock, MockLicenseServer } from '../src/testing';
+
+const PRIMARY = 'https://eu.license.example.com';
+const SECONDARY = 'https://us.license.example.com';
+const VALIDATE = '/licenses/validate';
+const OK = { data: { is_valid: true, reason: 'valid', status: 'active' } };
+
+describe('failover', () => {
+    let clock: ManualClock;
+    let primary: ScriptedTransport;
+    let secondary: ScriptedTransport;
+    let changes: EndpointHealth[];
+
+    const createTransport = (options = {}) =>
+        new FailoverTransport(
+            [
+                { url: PRIMARY, transport: primary },
+                { url: SECONDARY, transport: secondary },
+            ],
+            {
+                clock,
+                failureThreshold: 2,
+                probeInterval: 1000,
+                onStateChange: (health) => changes.push(health),
+                ...options,
+            }
+        );
+
+    beforeEach(() => {
+        clock = new ManualClock(new Date('2030-01-01T00:00:00Z'));
+        primary = new ScriptedTransport();
+        secondary = new ScriptedTransport();
+        changes = [];
+    });
+
+    describe('FailoverTransport', () => {
+        it('should use the first endpoint while it is healthy', async () => {
+            primary.replyAlways(VALIDATE, OK);
+            const transport = createTransport();
+
+            const response = await transport.post(VALIDATE, {});
+
+            expect(response.endpoint).toBe(PRIMARY);
+            expect(secondary.requests).toHaveLength(0);
+        });
+
+        it('should fail over on transient errors', async () => {
+            primary.reply(VALIDATE, { networkError: true }, { status: 503 });
+            secondary.replyAlways(VALIDATE, OK);
+            const transport = createTransport();
+
+            expect((await transport.post(VALIDATE, {})).endpoint).toBe(SECONDARY);
+            expect((await transport.post(VALIDATE, {})).endpoint).toBe(SECONDARY);
+            expect(primary.requests).toHaveLength(2);
+        });
+
+        it('should not fail over when the server refuses the request', async () => {
+            primary.replyAlways(VALIDATE, { status: 401 });
+            const transport = createTransport();
+
+            await expect(transport.post(VALIDATE, {})).rejects.toThrow(AuthenticationError);
+            expect(secondary.requests).toHaveLength(0);
+            expect(transport.health()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+        });
+
+        it('should fail over when an endpoint sends a malformed body', async () => {
+            primary.replyAlways(VALIDATE, { data: '<html><body>Welcome to nginx!</body></html>' });
+            secondary.replyAlways(VALIDATE, OK);
+            const transport = createTransport();
+            const agent = new LicenseAgent({
+                serverUrl: PRIMARY,
+                apiKey: 'prod_testprefix_testsecret',
+                licenseKey: 'LIC-123',
+                productName: 'TestProduct',
+                fingerprint: false,
+                transport,
+            });
+
+            expect(await agent.validate()).toMatchObject({ isValid: true, endpoint: SECONDARY });
+            expect(transport.health()[0]).toMatchObject({ consecutiveFailures: 1 });
+            const response = await transport.post(VALIDATE, {}, { validateResponse: parseValidationResponse });
+            expect(response.endpoint).toBe(SECONDARY);
+            expect(transport.health()[0].state).toBe('open');
+        });
+
+        it('should skip an endpoint whose circuit is open and probe it after probeInterval', async () => {
+            primary.reply(VALIDATE, { networkError: true }, { networkError: true }, { networkError: true });
+            primary.replyAlways(VALIDATE, OK);
+            secondary.replyAlways(VALIDATE, OK);
+            const transport = createTransport();
+
+            await transport.post(VALIDATE, {});
+            await transport.post(VALIDATE, {});
+            expect(transport.health()[0]).toMatchObject({ state: 'open', consecutiveFailures: 2 });
+
+            await transport.post(VALIDATE, {});
+            expect(primary.requests).toHaveLength(2);
+
+            // A failed probe opens the circuit again for another interval.
+            clock.advance(1000);
+            expect((await transport.post(VALIDATE, {})).endpoint).toBe(SECONDARY);
+            expect(primary.requests).toHaveLength(3);
+            expect(transport.health()[0].state).toBe('open');
+
+            clock.advance(1000);
+            expect((await transport.post(VALIDATE, {})).endpoint).toBe(PRIMARY);
+            expect(transport.health()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+            expect(changes.map((health) => health.state)).toEqual(['open', 'half_open', 'open', 'half_open', 'closed']);
+        });
+
+        it('should try every endpoint when all circuits are open', async () => {
+            primary.replyAlways(VALIDATE, { networkError: true });
+            secondary.replyAlways(VALIDATE, { networkError: true });
+            const transport = createTransport({ failureThreshold: 1 });
+
+            await expect(transport.post(VALIDATE, {})).rejects.toThrow(NetworkError);
+            secondary.replyAlways(VALIDATE, OK);
+
+            expect((await transport.post(VALIDATE, {})).endpoint).toBe(SECONDARY);
+            expect(primary.requests).toHaveLength(2);
+        });
+
+        it('should split the request timeout between endpoints', async () => {
+            primary.replyAlways(VALIDATE, { networkError: true, delay: 60 });
+            secondary.replyAlways(VALIDATE, OK);
+            const transport = createTransport();
+
+            expect((await transport.post(VALIDATE, {}, { timeout: 100 })).endpoint).toBe(SECONDARY);
+            expect(primary.requests[0].timeout).toBeGreaterThan(45);
+            expect(primary.requests[0].timeout).toBeLessThanOrEqual(50);
+            // Timers may fire a millisecond early, so the secondary can get slightly more than half.
+            expect(secondary.requests[0].timeout).toBeLessThanOrEqual(55);
+        });
+
+        it('should reach the next endpoint when the primary times out, also while probing it', async () => {
+            primary.replyAlways(VALIDATE, { ...OK, delay: 1000 });
+            secondary.replyAlways(VALIDATE, OK);
+            const transport = createTransport();
+
+            for (let i = 0; i < 3; i++) {
+                expect((await transport.post(VALIDATE, {}, { timeout: 100 })).endpoint).toBe(SECONDARY);
+            }
+            expect(primary.requests).toHaveLength(2);
+            expect(transport.health()[0].state).toBe('open');
+
+            clock.advance(1000);
+            expect((await transport.post(VALIDATE, {}, { timeout: 100 })).endpoint).toBe(SECONDARY);
+            expect(primary.requests).toHaveLength(3);
+            expect(secondary.requests).toHaveLength(4);
+        });
+
+        it('should reject invalid options', () => {
+            expect(() => new FailoverTransport([])).toThrow('At least one endpoint is required');
+            expect(() => createTransport({ failureThreshold: 0 })).toThrow(/failureThreshold/);
+        });
+    });
+
+    describe('LicenseAgent with several server URLs', () => {
+        let servers: MockLicenseServer[];
+
+        beforeEach(async () => {
+            servers = [new MockLicenseServer({ clock }), new MockLicenseServer({ clock })];
+            await Promise.all(servers.map((server) => server.start()));
+        });
+
+        afterEach(async () => {
+            await Promise.all(servers.map((server) => server.stop()));
+        });
+
+        it('should report the endpoint that answered and recover the primary', async () => {
+            const config = servers[0].agentConfig({
+                serverUrl: servers.map((server) => server.url),
+                failover: { failureThreshold: 1, probeInterval: 60 * 1000 },
+            });
+            const agent = new LicenseAgent(config);
+
+            expect(await agent.forceValidate()).toMatchObject({ isValid: true, endpoint: servers[0].url });
+
+            servers[0].setScenario('server_error');
+            expect(await agent.forceValidate()).toMatchObject({ isValid: true, endpoint: servers[1].url });
+
+            servers[0].setScenario('valid');
+            expect((await agent.forceValidate()).endpoint).toBe(servers[1].url);
+            clock.advance(60 * 1000);
+            expect((await agent.forceValidate()).endpoint).toBe(servers[0].url);
+        });
+
+        it('should read a comma-separated list from the environment', () => {
+            const agent = LicenseAgent.fromEnv(
+                { fingerprint: false },
+                {
+                    LICENSE_AGENT_SERVER_URL: `${PRIMARY}, ${SECONDARY}`,
+                    LICENSE_AGENT_API_KEY: 'key',
+                    LICENSE_AGENT_LICENSE_KEY: 'LIC-123',
+                    LICENSE_AGENT_PRODUCT_NAME: 'TestProduct',
+                }
+            );
+
+            expect(agent.config.serverUrl).toEqual([PRIMARY, SECONDARY]);
+        });
+
+        it('should reject an empty list', () => {
+            expect(() => new LicenseAgent(servers[0].agentConfig({ serverUrl: [] }))).toThrow(
+                'serverUrl must be a non-empty list of URLs'
+            );
+        });
+    });
+});
@@ -0,0 +1,179 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LicenseAgent, LicenseAgentConfig, MemoryCacheStore, generateFingerprint } from '../src/index';
+import { countChangedComponents, reconcileFingerprint } from '../src/fingerprint';
+import type { FingerprintOptions } from '../src/types';
+
+jest.mock('axios');
+
+const mockedAxiosInstance = {
+    post: jest.fn(),
+};
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const nic = (mac: string, internal = false) => ({ mac, internal }) as os.NetworkInterfaceInfo;
+
+describe('fingerprint', () => {
+    let directory: string;
+    let options: FingerprintOptions;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'license-agent-'));
+        await fs.writeFile(path.join(directory, 'machine-id'), 'abc123\n');
+        options = {
+            components: ['machineId', 'hostname', 'cpuModel', 'macAddresses'],
+            machineIdPaths: [path.join(directory, 'missing'), path.join(directory, 'machine-id')],
+        };
+
+        jest.spyOn(os, 'hostname').mockReturnValue('build-01');
+        jest.spyOn(os, 'cpus').mockReturnValue([{ model: 'Test CPU @ 3.00GHz' } as os.CpuInfo]);
+        jest.spyOn(os, 'networkInterfaces').mockReturnValue({
+            lo: [nic('00:00:00:00:00:00', true)],
+            eth0: [nic('AA:BB:CC:00:00:01')],
+        });
+        delete process.env.KUBERNETES_SERVICE_HOST;
+
+        // Pretend to run on a plain host, whatever environment the tests run in.
+        const readFile = fs.readFile;
+        jest.spyOn(fs, 'access').mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+        jest.spyOn(fs, 'readFile').mockImplementation(((file: string, ...args: unknown[]) =>
+            file === '/proc/1/cgroup' ? Promise.resolve('0::/\n') : (readFile as any)(file, ...args)) as any);
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    describe('generateFingerprint()', () => {
+        it('should be deterministic and contain only hashes', async () => {
+            const first = await generateFingerprint(options);
+            const second = await generateFingerprint(options);
+
+            expect(first).toEqual(second);
+            expect(first.id).toMatch(/^[0-9a-f]{64}$/);
+            expect(Object.keys(first.components).sort()).toEqual(['cpuModel', 'hostname', 'macAddresses', 'machineId']);
+            expect(JSON.stringify(first)).not.toContain('build-01');
+        });
+
+        it('should change when a component changes', async () => {
+            const before = await generateFingerprint(options);
+            jest.spyOn(os, 'hostname').mockReturnValue('build-02');
+
+            const after = await generateFingerprint(options);
+
+            expect(after.id).not.toBe(before.id);
+            expect(countChangedComponents(before, after)).toBe(1);
+        });
+
+        it('should skip components that cannot be read', async () => {
+            const fingerprint = await generateFingerprint({
+                ...options,
+                machineIdPaths: [path.join(directory, 'none')],
+            });
+
+            expect(fingerprint.components.machineId).toBeUndefined();
+        });
+
+        it('should drop per-container components inside a container', async () => {
+            process.env.KUBERNETES_SERVICE_HOST = '10.0.0.1';
+
+            const fingerprint = await generateFingerprint({
+                ...options,
+                components: [...options.components!, 'container'],
+            });
+
+            expect(fingerprint.container).toBe('kubernetes');
+            expect(Object.keys(fingerprint.components).sort()).toEqual(['container', 'cpuModel', 'machineId']);
+            delete process.env.KUBERNETES_SERVICE_HOST;
+        });
+    });
+
+    describe('reconcileFingerprint()', () => {
+        it('should keep the stored id when one component changed', async () => {
+            const stored = await generateFingerprint(options);
+            jest.spyOn(os, 'networkInterfaces').mockReturnValue({
+                eth0: [nic('aa:bb:cc:00:00:01')],
+                eth1: [nic('aa:bb:cc:00:00:02')],
+            });
+            const current = await generateFingerprint(options);
+
+            expect(reconcileFingerprint(current, stored, 1).id).toBe(stored.id);
+            expect(reconcileFingerprint(current, stored, 0).id).toBe(current.id);
+        });
+
+        it('should use a new id when several components changed', async () => {
+            const stored = await generateFingerprint(options);
+            jest.spyOn(os, 'hostname').mockReturnValue('build-02');
+            jest.spyOn(os, 'cpus').mockReturnValue([{ model: 'Other CPU' } as os.CpuInfo]);
+            const current = await generateFingerprint(options);
+
+            expect(reconcileFingerprint(current, stored, 1).id).toBe(current.id);
+        });
+    });
+
+    describe('LicenseAgent', () => {
+        let config: LicenseAgentConfig;
+
+        beforeEach(() => {
+            jest.clearAllMocks();
+            mockedAxios.create.mockReturnValue(mockedAxiosInstance as any);
+            mockedAxiosInstance.post.mockResolvedValue({ data: { is_valid: true, reason: 'valid' } });
+            config = {
+                serverUrl: 'http://localhost:8080',
+                apiKey: 'prod_testprefix_testsecret',
+                licenseKey: 'LIC-123',
+                productName: 'TestProduct',
+                cacheTTL: 1000,
+                fingerprint: options,
+            };
+        });
+
+        it('should send the fingerprint with validation requests', async () => {
+            const expected = await generateFingerprint(options);
+
+            await new LicenseAgent(config).validate();
+
+            expect(mockedAxiosInstance.post).toHaveBeenCalledWith(
+                '/licenses/validate',
+                expect.objectContaining({ fingerprint: expected.id })
+            );
+        });
+
+        it('should keep the fingerprint id after a restart with a new network card', async () => {
+            const cacheStore = new MemoryCacheStore();
+            const first = await new LicenseAgent({ ...config, cacheStore }).getFingerprint();
+            await new LicenseAgent({ ...config, cacheStore }).validate();
+            jest.spyOn(os, 'networkInterfaces').mockReturnValue({ eth0: [nic('aa:bb:cc:00:00:09')] });
+
+            const restarted = new LicenseAgent({ ...config, cacheStore, cacheTTL: 1 });
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            await restarted.validate();
+
+            expect(mockedAxiosInstance.post).toHaveBeenLastCalledWith(
+                '/licenses/validate',
+                expect.objectContaining({ fingerprint: first!.id })
+            );
+        });
+
+        it('should use the override hook', async () => {
+            const override = jest.fn().mockReturnValue('custom-id');
+
+            await new LicenseAgent({ ...config, fingerprint: { ...options, override } }).validate();
+
+            expect(override).toHaveBeenCalledWith(expect.objectContaining({ id: expect.any(String) }));
+            expect(mockedAxiosInstance.post).toHaveBeenCalledWith(
+                '/licenses/validate',
+                expect.objectContaining({ fingerprint: 'custom-id' })
+            );
+        });
+
+        it('should not send a fingerprint when disabled', async () => {
+            await new LicenseAgent({ ...config, fingerprint: false }).validate();
+
+            expect(mockedAxiosInstance.post.mock.calls[0][1]).not.toHaveProperty('fingerprint');
+        });
+    });
+});
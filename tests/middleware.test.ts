@@ -0,0 +1,222 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+    createExpressMiddleware,
+    createFastifyHook,
+    withLicense,
+    LicenseGuardOptions,
+    LicensedRequest,
+} from '../src/index';
+import type { ValidationResult } from '../src/types';
+
+const VALID: ValidationResult = {
+    isValid: true,
+    reason: 'valid',
+    status: 'active',
+    allowedData: { features: ['export'] },
+    lastCheckedAt: new Date(),
+};
+const REVOKED: ValidationResult = { isValid: false, reason: 'revoked', status: 'revoked', lastCheckedAt: new Date() };
+const UNREACHABLE: ValidationResult = { isValid: false, isOffline: true, reason: 'network_error_no_cache' };
+
+const createAgent = (result: ValidationResult) => ({ validate: jest.fn().mockResolvedValue(result) });
+
+async function request(listener: http.RequestListener) {
+    const server = http.createServer(listener);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+        return await new Promise<{ status: number; body: any }>((resolve, reject) => {
+            http.get({ host: '127.0.0.1', port, path: '/' }, (res) => {
+                let data = '';
+                res.on('data', (chunk) => (data += chunk));
+                res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+            }).on('error', reject);
+        });
+    } finally {
+        await new Promise((resolve) => server.close(resolve));
+    }
+}
+
+const echoLicense = (req: http.IncomingMessage & LicensedRequest, res: http.ServerResponse) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ reason: req.license?.result.reason, denial: req.license?.denial }));
+};
+
+describe('middleware', () => {
+    describe('withLicense()', () => {
+        it('should call the handler with the result attached when the license is valid', async () => {
+            const agent = createAgent(VALID);
+
+            const response = await request(withLicense(agent, echoLicense));
+
+            expect(response).toEqual({ status: 200, body: { reason: 'valid', denial: null } });
+            expect(agent.validate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should block an invalid license with 403', async () => {
+            const response = await request(withLicense(createAgent(REVOKED), echoLicense));
+
+            expect(response).toEqual({ status: 403, body: { error: 'license_invalid', reason: 'revoked' } });
+        });
+
+        it('should answer 503 when the license server was never reached', async () => {
+            const response = await request(withLicense(createAgent(UNREACHABLE), echoLicense));
+
+            expect(response.status).toBe(503);
+            expect(response.body.error).toBe('license_unavailable');
+        });
+
+        it('should apply the route enforcement levels', async () => {
+            const suspended = {
+                ...REVOKED,
+                status: 'suspended',
+                reason: 'suspended',
+                enforcement: 'read_only' as const,
+            };
+
+            const read = await request(withLicense(createAgent(suspended), echoLicense));
+            const write = await request(withLicense(createAgent(suspended), echoLicense, { levels: ['full'] }));
+
+            expect(read.status).toBe(200);
+            expect(write).toEqual({
+                status: 403,
+                body: { error: 'license_restricted', reason: 'suspended', level: 'read_only' },
+            });
+        });
+
+        it('should require route features', async () => {
+            const agent = createAgent(VALID);
+
+            const allowed = await request(withLicense(agent, echoLicense, { features: ['export'] }));
+            const denied = await request(withLicense(agent, echoLicense, { features: ['export', 'sso'] }));
+
+            expect(allowed.status).toBe(200);
+            expect(denied).toEqual({
+                status: 403,
+                body: { error: 'feature_not_entitled', reason: 'feature_not_entitled', feature: 'sso' },
+            });
+        });
+
+        it('should use configured status codes and bodies', async () => {
+            const options: LicenseGuardOptions = {
+                statusCodes: { license_invalid: 402 },
+                body: (denial, result) => ({ message: `Blocked: ${denial.reason}`, status: result.status }),
+            };
+
+            const response = await request(withLicense(createAgent(REVOKED), echoLicense, options));
+
+            expect(response).toEqual({ status: 402, body: { message: 'Blocked: revoked', status: 'revoked' } });
+        });
+
+        it('should pass denied requests on in degrade mode', async () => {
+            const response = await request(withLicense(createAgent(REVOKED), echoLicense, { mode: 'degrade' }));
+
+            expect(response).toEqual({
+                status: 200,
+                body: { reason: 'revoked', denial: { kind: 'license_invalid', reason: 'revoked' } },
+            });
+        });
+
+        it('should answer 500 when validation throws', async () => {
+            const agent = { validate: jest.fn().mockRejectedValue(new Error('boom')) };
+
+            const response = await request(withLicense(agent, echoLicense));
+
+            expect(response).toEqual({ status: 500, body: { error: 'license_check_failed' } });
+        });
+
+        it('should answer 500 when the handler throws or rejects', async () => {
+            const throwing = withLicense(createAgent(VALID), () => {
+                throw new Error('handler failure');
+            });
+            const rejecting = withLicense(createAgent(VALID), async () => {
+                throw new Error('handler failure');
+            });
+
+            expect(await request(throwing)).toEqual({ status: 500, body: { error: 'internal_error' } });
+            expect(await request(rejecting)).toEqual({ status: 500, body: { error: 'internal_error' } });
+        });
+    });
+
+    describe('createExpressMiddleware()', () => {
+        it('should call next for a valid license', async () => {
+            const middleware = createExpressMiddleware(createAgent(VALID));
+
+            const response = await request((req, res) => middleware(req, res, () => echoLicense(req, res)));
+
+            expect(response.status).toBe(200);
+            expect(response.body.reason).toBe('valid');
+        });
+
+        it('should respond without calling next for an invalid license', async () => {
+            const next = jest.fn();
+            const middleware = createExpressMiddleware(createAgent(REVOKED));
+
+            const response = await request((req, res) => middleware(req, res, next));
+
+            expect(response.status).toBe(403);
+            expect(next).not.toHaveBeenCalled();
+        });
+
+        it('should forward validation errors to next', async () => {
+            const error = new Error('boom');
+            const middleware = createExpressMiddleware({ validate: jest.fn().mockRejectedValue(error) });
+            const next = jest.fn();
+
+            await new Promise<void>((resolve) => {
+                next.mockImplementation(() => resolve());
+                middleware({} as any, {} as any, next);
+            });
+
+            expect(next).toHaveBeenCalledWith(error);
+        });
+
+        it('should forward errors thrown while responding to next', async () => {
+            const error = new Error('write after end');
+            const middleware = createExpressMiddleware(createAgent(REVOKED));
+            const res = {
+                setHeader: () => {
+                    throw error;
+                },
+            };
+            const next = jest.fn();
+
+            await new Promise<void>((resolve) => {
+                next.mockImplementation(() => resolve());
+                middleware({} as any, res as any, next);
+            });
+
+            expect(next).toHaveBeenCalledWith(error);
+        });
+    });
+
+    describe('createFastifyHook()', () => {
+        const createReply = () => {
+            const reply = { code: jest.fn(), send: jest.fn() };
+            reply.code.mockReturnValue(reply);
+            reply.send.mockReturnValue(reply);
+            return reply;
+        };
+
+        it('should decorate the request and let valid requests through', async () => {
+            const request: LicensedRequest = {};
+            const reply = createReply();
+
+            await createFastifyHook(createAgent(VALID), { features: ['export'] })(request, reply);
+
+            expect(request.license?.result.isValid).toBe(true);
+            expect(reply.send).not.toHaveBeenCalled();
+        });
+
+        it('should reply to denied requests', async () => {
+            const reply = createReply();
+
+            await createFastifyHook(createAgent(REVOKED))({}, reply);
+
+            expect(reply.code).toHaveBeenCalledWith(403);
+            expect(reply.send).toHaveBeenCalledWith({ error: 'license_invalid', reason: 'revoked' });
+        });
+    });
+});
@@ -0,0 +1,193 @@
+import {
+    LicenseAgent,
+    LicenseAgentConfig,
+    Logger,
+    MetricsHooks,
+    PrometheusExporter,
+    ScriptedTransport,
+    createRedactingLogger,
+    maskLicenseKey,
+} from '../src/index';
+import { ManualClock } from '../src/testing';
+
+const MINUTE = 60 * 1000;
+const START = new Date('2030-01-01T00:00:00Z').getTime();
+const API_KEY = 'prod_testprefix_testsecret';
+const LICENSE_KEY = 'LIC-SECRET-1234';
+const VALID = {
+    data: { is_valid: true, reason: 'valid', status: 'active', expires_at: '2031-01-01T00:00:00Z' },
+};
+
+type LogRecord = [string, string, Record<string, unknown> | undefined];
+
+describe('observability', () => {
+    let clock: ManualClock;
+    let transport: ScriptedTransport;
+    let records: LogRecord[];
+    let logger: Logger;
+
+    const createAgent = (config: Partial<LicenseAgentConfig> = {}) =>
+        new LicenseAgent({
+            serverUrl: 'http://localhost:8080',
+            apiKey: API_KEY,
+            licenseKey: LICENSE_KEY,
+            productName: 'TestProduct',
+            fingerprint: false,
+            cacheTTL: MINUTE,
+            gracePeriod: 60 * MINUTE,
+            retry: { maxAttempts: 2, baseDelay: 1, maxDelay: 1, jitter: 0 },
+            clock,
+            transport,
+            logger,
+            ...config,
+        });
+
+    beforeEach(() => {
+        clock = new ManualClock(START);
+        transport = new ScriptedTransport();
+        records = [];
+        const record = (level: string) => (message: string, context?: Record<string, unknown>) =>
+            records.push([level, message, context]);
+        logger = { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') };
+    });
+
+    describe('logger', () => {
+        it('should never pass the API key or the license key to the logger', async () => {
+            transport.replyAlways('/licenses/validate', { status: 401, data: { message: `Unknown key ${API_KEY}` } });
+
+            await createAgent().validate();
+
+            const logged = JSON.stringify(records);
+            expect(records.some(([level]) => level === 'error')).toBe(true);
+            expect(logged).not.toContain(API_KEY);
+            expect(logged).not.toContain(LICENSE_KEY);
+            expect(logged).toContain(maskLicenseKey(LICENSE_KEY));
+        });
+
+        it('should log license transitions', async () => {
+            transport.reply('/licenses/validate', VALID).replyAlways('/licenses/validate', { networkError: true });
+            const agent = createAgent();
+
+            await agent.validate();
+            clock.advance(2 * MINUTE);
+            await agent.validate();
+
+            expect(records).toContainEqual(['info', 'License valid', expect.objectContaining({ reason: 'valid' })]);
+            expect(records).toContainEqual([
+                'warn',
+                'License gracePeriodEntered',
+                expect.objectContaining({ reason: 'grace_period' }),
+            ]);
+        });
+
+        it('should keep validating when the logger throws', async () => {
+            transport.replyAlways('/licenses/validate', VALID);
+            const failing: Logger = {
+                debug: () => undefined,
+                info: () => {
+                    throw new Error('log sink is down');
+                },
+                warn: () => undefined,
+                error: () => undefined,
+            };
+
+            await expect(createAgent({ logger: failing }).validate()).resolves.toMatchObject({ isValid: true });
+        });
+
+        it('should redact secrets nested in context and errors', () => {
+            const redacting = createRedactingLogger(logger, [API_KEY]);
+
+            redacting.warn(`key ${API_KEY}`, { headers: { 'x-api-key': API_KEY }, error: new Error(API_KEY) });
+
+            expect(records).toEqual([
+                [
+                    'warn',
+                    'key [REDACTED]',
+                    { headers: { 'x-api-key': '[REDACTED]' }, error: { name: 'Error', message: '[REDACTED]' } },
+                ],
+            ]);
+        });
+    });
+
+    describe('metrics hooks', () => {
+        it('should report validations, cache hits and misses, durations, retries and grace-period entries', async () => {
+            const metrics: Required<MetricsHooks> = {
+                validation: jest.fn(),
+                cacheHit: jest.fn(),
+                cacheMiss: jest.fn(),
+                requestDuration: jest.fn(),
+                retry: jest.fn(),
+                gracePeriodEntered: jest.fn(),
+            };
+            transport.reply('/licenses/validate', VALID).replyAlways('/licenses/validate', { status: 503 });
+            const agent = createAgent({ metrics });
+
+            await agent.validate();
+            await agent.validate();
+            clock.advance(2 * MINUTE);
+            await agent.validate();
+
+            expect((metrics.validation as jest.Mock).mock.calls.map(([result]) => result.reason)).toEqual([
+                'valid',
+                'valid',
+                'grace_period',
+            ]);
+            expect(metrics.cacheHit).toHaveBeenCalledTimes(1);
+            expect(metrics.cacheMiss).toHaveBeenCalledTimes(2);
+            expect(metrics.requestDuration).toHaveBeenCalledWith('/licenses/validate', expect.any(Number), 'success');
+            expect(metrics.requestDuration).toHaveBeenCalledWith('/licenses/validate', expect.any(Number), 'error');
+            expect(metrics.retry).toHaveBeenCalledTimes(1);
+            expect(metrics.retry).toHaveBeenCalledWith('/licenses/validate', 1, expect.any(Error));
+            expect(metrics.gracePeriodEntered).toHaveBeenCalledTimes(1);
+        });
+
+        it('should ignore hooks that throw', async () => {
+            transport.replyAlways('/licenses/validate', VALID);
+            const metrics: MetricsHooks = {
+                validation: () => {
+                    throw new Error('metrics backend is down');
+                },
+            };
+
+            await expect(createAgent({ metrics }).validate()).resolves.toMatchObject({ isValid: true });
+        });
+    });
+
+    describe('PrometheusExporter', () => {
+        it('should render collected metrics in the text format', async () => {
+            const exporter = new PrometheusExporter({ labels: { service: 'billing' }, durationBuckets: [0.1, 1] });
+            transport.replyAlways('/licenses/validate', VALID);
+            const agent = createAgent({ metrics: exporter });
+
+            await agent.validate();
+            await agent.validate();
+            exporter.requestDuration('/licenses/validate', 500, 'error');
+            exporter.retry('/licenses/validate');
+
+            const text = exporter.metrics();
+            expect(text).toContain('# TYPE license_agent_validations_total counter');
+            expect(text).toContain('license_agent_validations_total{service="billing",reason="valid"} 2');
+            expect(text).toContain('license_agent_cache_hits_total{service="billing"} 1');
+            expect(text).toContain('license_agent_cache_misses_total{service="billing"} 1');
+            expect(text).toContain(
+                'license_agent_request_duration_seconds_bucket{service="billing",path="/licenses/validate",outcome="error",le="0.1"} 0'
+            );
+            expect(text).toContain(
+                'license_agent_request_duration_seconds_bucket{service="billing",path="/licenses/validate",outcome="error",le="1"} 1'
+            );
+            expect(text).toContain(
+                'license_agent_request_duration_seconds_count{service="billing",path="/licenses/validate",outcome="success"} 1'
+            );
+            expect(text).toContain('license_agent_retries_total{service="billing",path="/licenses/validate"} 1');
+            expect(text).toContain('license_agent_grace_period_entries_total{service="billing"} 0');
+        });
+
+        it('should use the prefix and clear values on reset', () => {
+            const exporter = new PrometheusExporter({ prefix: 'app_license' });
+            exporter.cacheHit();
+            exporter.reset();
+
+            expect(exporter.metrics()).toContain('app_license_cache_hits_total 0');
+        });
+    });
+});
@@ -0,0 +1,182 @@
+import {
+    EnforcementError,
+    EnforcementPolicy,
+    LicenseAgent,
+    LicenseAgentConfig,
+    ScriptedTransport,
+    ValidationError,
+    ValidationResult,
+    resolveEnforcement,
+    validateConfig,
+} from '../src/index';
+import { ManualClock } from '../src/testing';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const NOW = new Date('2030-01-01T00:00:00Z').getTime();
+const VALIDATE = '/licenses/validate';
+const VALID = { is_valid: true, status: 'active', reason: 'valid', expires_at: '2031-01-01T00:00:00Z' };
+
+const POLICY: EnforcementPolicy = {
+    rules: [
+        { status: ['suspended'], level: 'read_only' },
+        { offlineFor: 7 * DAY, level: 'blocked' },
+        { offline: true, level: 'limited' },
+        { expiresWithin: 3 * DAY, valid: true, level: 'limited' },
+    ],
+};
+
+describe('enforcement policy', () => {
+    describe('resolveEnforcement()', () => {
+        const resolve = (result: ValidationResult, policy: EnforcementPolicy | undefined = POLICY) =>
+            resolveEnforcement(result, policy, { now: NOW });
+
+        it('should keep the old outcome without a policy', () => {
+            const withoutPolicy = (result: ValidationResult) => resolveEnforcement(result, undefined, { now: NOW });
+
+            expect(withoutPolicy({ isValid: true })).toBe('full');
+            expect(withoutPolicy({ isValid: true, isGracePeriod: true, isOffline: true })).toBe('full');
+            expect(withoutPolicy({ isValid: false, reason: 'expired' })).toBe('blocked');
+        });
+
+        it('should use the first matching rule', () => {
+            expect(resolve({ isValid: false, status: 'suspended', reason: 'suspended' })).toBe('read_only');
+            expect(resolve({ isValid: false, status: 'revoked' })).toBe('blocked');
+        });
+
+        it('should match on how long the agent has been offline', () => {
+            const offline = (age: number): ValidationResult => ({
+                isValid: true,
+                isOffline: true,
+                isGracePeriod: true,
+                lastCheckedAt: new Date(NOW - age),
+            });
+
+            expect(resolve(offline(DAY))).toBe('limited');
+            expect(resolve(offline(7 * DAY))).toBe('blocked');
+            expect(resolve({ isValid: false, isOffline: true, lastCheckedAt: null })).toBe('blocked');
+        });
+
+        it('should match on the time left until expiry', () => {
+            const expiring = { isValid: true, expiresAt: new Date(NOW + DAY) };
+
+            expect(resolve(expiring)).toBe('limited');
+            expect(resolve({ isValid: true, expiresAt: new Date(NOW + 10 * DAY) })).toBe('full');
+            expect(resolve({ isValid: true, expiresAt: null })).toBe('full');
+            expect(resolveEnforcement(expiring, POLICY, { now: NOW, serverNow: NOW - 5 * DAY })).toBe('full');
+        });
+
+        it('should fall back to the policy default', () => {
+            expect(resolve({ isValid: false, reason: 'expired' }, { rules: [], default: 'read_only' })).toBe(
+                'read_only'
+            );
+        });
+    });
+
+    it('should report malformed policies through validateConfig()', () => {
+        const config = {
+            serverUrl: 'http://localhost:8080',
+            apiKey: 'key',
+            licenseKey: 'LIC-123',
+            productName: 'TestProduct',
+        };
+
+        expect(validateConfig({ ...config, enforcement: POLICY })).toEqual([]);
+        expect(
+            validateConfig({
+                ...config,
+                enforcement: { rules: [{ level: 'readonly', offlineFor: '7d' }], default: 'none' },
+            } as any)
+        ).toEqual([
+            { field: 'enforcement', message: 'enforcement.default must be one of full, read_only, limited, blocked' },
+            {
+                field: 'enforcement',
+                message: 'enforcement.rules[0].level must be one of full, read_only, limited, blocked',
+            },
+            { field: 'enforcement', message: 'enforcement.rules[0].offlineFor must be a number' },
+        ]);
+        expect(
+            validateConfig({
+                ...config,
+                enforcement: {
+                    rules: [
+                        { level: 'read_only', status: 'suspended', reason: [42] },
+                        { level: 'limited', valid: 'yes', offline: 'true', expiresWithin: NaN },
+                        null,
+                    ],
+                },
+            } as any).map((problem) => problem.message)
+        ).toEqual([
+            'enforcement.rules[0].status must be an array of strings or null',
+            'enforcement.rules[0].reason must be an array of strings or null',
+            'enforcement.rules[1].valid must be a boolean',
+            'enforcement.rules[1].offline must be a boolean',
+            'enforcement.rules[1].expiresWithin must be a number',
+            'enforcement.rules[2] must be an object',
+        ]);
+        expect(() => new LicenseAgent({ ...config, enforcement: {} as any, fingerprint: false })).toThrow(
+            'enforcement must be an object with a rules array'
+        );
+    });
+
+    describe('LicenseAgent', () => {
+        let clock: ManualClock;
+        let transport: ScriptedTransport;
+
+        const createAgent = (config: Partial<LicenseAgentConfig> = {}) =>
+            new LicenseAgent({
+                serverUrl: 'http://localhost:8080',
+                apiKey: 'prod_testprefix_testsecret',
+                licenseKey: 'LIC-123',
+                productName: 'TestProduct',
+                fingerprint: false,
+                cacheTTL: MINUTE,
+                gracePeriod: 30 * DAY,
+                enforcement: POLICY,
+                clock,
+                transport,
+                ...config,
+            });
+
+        beforeEach(() => {
+            clock = new ManualClock(NOW);
+            transport = new ScriptedTransport();
+        });
+
+        it('should set the level on every result', async () => {
+            transport.reply(VALIDATE, { data: VALID }).replyAlways(VALIDATE, { networkError: true });
+            const agent = createAgent();
+
+            expect(await agent.validate()).toMatchObject({ isValid: true, enforcement: 'full' });
+            clock.advance(2 * MINUTE);
+            expect(await agent.validate()).toMatchObject({ isGracePeriod: true, enforcement: 'limited' });
+            clock.advance(7 * DAY);
+            expect(await agent.validate()).toMatchObject({ isGracePeriod: true, enforcement: 'blocked' });
+        });
+
+        it('should let checkOrThrow() pass degraded levels unless they are excluded', async () => {
+            transport.replyAlways(VALIDATE, { data: { ...VALID, is_valid: false, status: 'suspended' } });
+            const agent = createAgent();
+
+            await expect(agent.checkOrThrow()).resolves.toBeUndefined();
+            const error = await agent.checkOrThrow(undefined, { allow: ['full'] }).catch((e) => e);
+
+            expect(error).toBeInstanceOf(EnforcementError);
+            expect(error).toMatchObject({ level: 'read_only', status: 'suspended' });
+        });
+
+        it('should throw a ValidationError for blocked invalid licenses', async () => {
+            transport.replyAlways(VALIDATE, {
+                data: { ...VALID, is_valid: false, status: 'revoked', reason: 'revoked' },
+            });
+
+            const error = await createAgent()
+                .checkOrThrow()
+                .catch((e) => e);
+
+            expect(error).toBeInstanceOf(ValidationError);
+            expect(error).not.toBeInstanceOf(EnforcementError);
+            expect(error.message).toBe('revoked');
+        });
+    });
+});
@@ -0,0 +1,128 @@
+import {
+    LicenseAgent,
+    LicenseAgentConfig,
+    InvalidResponseError,
+    ScriptedTransport,
+    parseActivationResponse,
+    parseValidationResponse,
+} from '../src/index';
+import { ManualClock } from '../src/testing';
+
+const MINUTE = 60 * 1000;
+const VALIDATE = '/licenses/validate';
+const VALID = { is_valid: true, status: 'active', reason: 'valid', expires_at: '2031-01-01T00:00:00Z' };
+
+describe('server response validation', () => {
+    describe('parseValidationResponse()', () => {
+        it('should accept a well-formed response with optional fields missing or null', () => {
+            expect(parseValidationResponse(VALID)).toBe(VALID);
+            expect(parseValidationResponse({ is_valid: false, status: null, expires_at: null })).toEqual({
+                is_valid: false,
+                status: null,
+                expires_at: null,
+            });
+        });
+
+        it('should pass unknown status and reason values and extra fields through', () => {
+            const response = { ...VALID, status: 'paused_by_reseller', reason: 'seat_rebalanced', region: 'eu' };
+
+            expect(parseValidationResponse(response)).toEqual(response);
+        });
+
+        it('should reject an HTML error page', () => {
+            expect(() => parseValidationResponse('<html><body>502 Bad Gateway</body></html>')).toThrow(
+                'Expected a JSON object from the license server, got an HTML page'
+            );
+            expect(() => parseValidationResponse([VALID])).toThrow(InvalidResponseError);
+        });
+
+        it('should list every malformed field', () => {
+            const error = (() => {
+                try {
+                    parseValidationResponse({ is_valid: 'yes', expires_at: 'next tuesday', allowed_data: 5 });
+                } catch (e) {
+                    return e as InvalidResponseError;
+                }
+            })();
+
+            expect(error).toBeInstanceOf(InvalidResponseError);
+            expect(error!.problems).toEqual([
+                'is_valid must be a boolean',
+                'expires_at must be an ISO date or null',
+                'allowed_data must be an object or null',
+            ]);
+        });
+
+        it('should check activation_id of activation responses', () => {
+            expect(() => parseActivationResponse({ ...VALID, activation_id: 42 })).toThrow(
+                'Invalid license server response: activation_id must be a string or null'
+            );
+        });
+    });
+
+    describe('LicenseAgent', () => {
+        let clock: ManualClock;
+        let transport: ScriptedTransport;
+
+        const createAgent = (config: Partial<LicenseAgentConfig> = {}) =>
+            new LicenseAgent({
+                serverUrl: 'http://localhost:8080',
+                apiKey: 'prod_testprefix_testsecret',
+                licenseKey: 'LIC-123',
+                productName: 'TestProduct',
+                fingerprint: false,
+                cacheTTL: MINUTE,
+                gracePeriod: 60 * MINUTE,
+                clock,
+                transport,
+                ...config,
+            });
+
+        beforeEach(() => {
+            clock = new ManualClock(new Date('2030-01-01T00:00:00Z'));
+            transport = new ScriptedTransport();
+        });
+
+        it('should report invalid_response without a cached result', async () => {
+            transport.reply(VALIDATE, { data: '<html>Service Unavailable</html>' });
+
+            const result = await createAgent().validate();
+
+            expect(result).toMatchObject({ isValid: false, isOffline: true, reason: 'invalid_response' });
+            expect(result.error).toBeInstanceOf(InvalidResponseError);
+        });
+
+        it('should keep serving the grace period and not cache malformed responses', async () => {
+            transport
+                .reply(VALIDATE, { data: VALID }, { data: { ...VALID, expires_at: 'soon' } })
+                .replyAlways(VALIDATE, { data: VALID });
+            const agent = createAgent();
+
+            await agent.validate();
+            clock.advance(2 * MINUTE);
+            const graceResult = await agent.validate();
+            const recovered = await agent.validate();
+
+            expect(graceResult).toMatchObject({ isValid: true, isGracePeriod: true, reason: 'grace_period' });
+            expect(graceResult.error).toBeInstanceOf(InvalidResponseError);
+            expect(recovered).toMatchObject({ isValid: true, reason: 'valid' });
+            expect(transport.requests).toHaveLength(3);
+        });
+
+        it('should report invalid_response from activate()', async () => {
+            transport.reply('/licenses/activate', { data: { is_valid: true, activation_id: ['act_1'] } });
+
+            const agent = createAgent({ deactivateOnExit: false });
+            const result = await agent.activate();
+
+            expect(result).toMatchObject({ isValid: false, isOffline: true, reason: 'invalid_response' });
+            expect(await agent.getActivationId()).toBeNull();
+        });
+
+        it('should accept unknown status values', async () => {
+            transport.reply(VALIDATE, { data: { ...VALID, status: 'grandfathered' } });
+
+            expect(await createAgent().validate()).toMatchObject({ isValid: true, status: 'grandfathered' });
+        });
+    });
+});
@@ -0,0 +1,201 @@
+import axios from 'axios';
+import { LicenseAgent, LicenseAgentConfig, InvalidConfigError, isRetryableError, parseRetryAfter } from '../src/index';
+import { withRetry, computeBackoff, ResolvedRetryOptions } from '../src/retry';
+import type { ValidationApiResponse } from '../src/types';
+
+jest.mock('axios');
+
+const mockedAxiosInstance = {
+    post: jest.fn(),
+};
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const OPTIONS: ResolvedRetryOptions = {
+    maxAttempts: 3,
+    baseDelay: 100,
+    maxDelay: 1000,
+    jitter: 0,
+    retryOn: isRetryableError,
+};
+
+const httpError = (status: number, headers: Record<string, unknown> = {}) =>
+    Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers } });
+
+const VALID_RESPONSE: ValidationApiResponse = { is_valid: true, reason: 'valid', status: 'active' };
+
+const BASE_CONFIG: LicenseAgentConfig = {
+    serverUrl: 'http://localhost:8080',
+    apiKey: 'prod_testprefix_testsecret',
+    licenseKey: 'LIC-123',
+    productName: 'TestProduct',
+    fingerprint: false,
+    requestTimeout: 500,
+};
+
+describe('retry', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('isRetryableError()', () => {
+        it('should retry network failures and transient statuses only', () => {
+            expect(isRetryableError(new Error('ECONNRESET'))).toBe(true);
+            expect(isRetryableError(httpError(503))).toBe(true);
+            expect(isRetryableError(httpError(429))).toBe(true);
+            expect(isRetryableError(httpError(401))).toBe(false);
+            expect(isRetryableError(httpError(404))).toBe(false);
+        });
+    });
+
+    describe('parseRetryAfter()', () => {
+        it('should parse seconds and HTTP dates', () => {
+            const now = Date.parse('2024-01-01T00:00:00Z');
+
+            expect(parseRetryAfter('2', now)).toBe(2000);
+            expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+            expect(parseRetryAfter('soon', now)).toBeNull();
+            expect(parseRetryAfter(undefined, now)).toBeNull();
+        });
+    });
+
+    describe('computeBackoff()', () => {
+        it('should grow exponentially up to maxDelay', () => {
+            expect([1, 2, 3, 4, 5].map((attempt) => computeBackoff(attempt, OPTIONS))).toEqual([
+                100, 200, 400, 800, 1000,
+            ]);
+        });
+
+        it('should only ever shorten the delay with jitter', () => {
+            jest.spyOn(Math, 'random').mockReturnValue(1);
+            expect(computeBackoff(1, { ...OPTIONS, jitter: 0.5 })).toBe(50);
+            jest.spyOn(Math, 'random').mockRestore();
+        });
+    });
+
+    describe('withRetry()', () => {
+        it('should retry until the operation succeeds', async () => {
+            const operation = jest.fn().mockRejectedValueOnce(new Error('ECONNRESET')).mockResolvedValueOnce('ok');
+
+            const promise = withRetry(operation, OPTIONS);
+            await jest.advanceTimersByTimeAsync(100);
+
+            await expect(promise).resolves.toBe('ok');
+            expect(operation).toHaveBeenCalledTimes(2);
+        });
+
+        it('should give up after maxAttempts', async () => {
+            const error = new Error('ECONNRESET');
+            const operation = jest.fn().mockRejectedValue(error);
+
+            const promise = withRetry(operation, OPTIONS);
+            const assertion = expect(promise).rejects.toBe(error);
+            await jest.advanceTimersByTimeAsync(300);
+
+            await assertion;
+            expect(operation).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not retry non-retryable errors', async () => {
+            const operation = jest.fn().mockRejectedValue(httpError(401));
+
+            await expect(withRetry(operation, OPTIONS)).rejects.toMatchObject({ response: { status: 401 } });
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        it('should honour Retry-After on 429 and 503', async () => {
+            const operation = jest
+                .fn()
+                .mockRejectedValueOnce(httpError(429, { 'retry-after': '3' }))
+                .mockResolvedValue('ok');
+
+            const promise = withRetry(operation, { ...OPTIONS, maxDelay: 5000 });
+            await jest.advanceTimersByTimeAsync(2999);
+            expect(operation).toHaveBeenCalledTimes(1);
+            await jest.advanceTimersByTimeAsync(1);
+
+            await expect(promise).resolves.toBe('ok');
+        });
+
+        it('should not wait for a Retry-After longer than maxDelay', async () => {
+            const error = httpError(429, { 'retry-after': '86400' });
+            const operation = jest.fn().mockRejectedValue(error);
+            const onRetry = jest.fn();
+
+            await expect(withRetry(operation, OPTIONS, onRetry)).rejects.toBe(error);
+            expect(operation).toHaveBeenCalledTimes(1);
+            expect(onRetry).not.toHaveBeenCalled();
+        });
+
+        it('should stop when the next attempt would exceed the deadline', async () => {
+            const error = httpError(503, { 'retry-after': '10' });
+            const operation = jest.fn().mockRejectedValue(error);
+
+            await expect(withRetry(operation, { ...OPTIONS, maxDelay: 60000, deadline: 5000 })).rejects.toBe(error);
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        it('should pass the remaining deadline to each attempt', async () => {
+            const operation = jest.fn().mockRejectedValueOnce(new Error('ETIMEDOUT')).mockResolvedValue('ok');
+
+            const promise = withRetry(operation, { ...OPTIONS, deadline: 1000 });
+            await jest.advanceTimersByTimeAsync(100);
+            await promise;
+
+            expect(operation.mock.calls[0][1]).toBe(1000);
+            expect(operation.mock.calls[1][1]).toBe(900);
+        });
+    });
+
+    describe('LicenseAgent', () => {
+        beforeEach(() => {
+            jest.clearAllMocks();
+            mockedAxios.create.mockReturnValue(mockedAxiosInstance as any);
+        });
+
+        it('should attempt once when no retry policy is configured', async () => {
+            mockedAxiosInstance.post.mockRejectedValue(new Error('ECONNRESET'));
+
+            const result = await new LicenseAgent(BASE_CONFIG).validate();
+
+            expect(result.reason).toBe('network_error_no_cache');
+            expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should recover from a dropped request', async () => {
+            mockedAxiosInstance.post
+                .mockRejectedValueOnce(new Error('ECONNRESET'))
+                .mockResolvedValueOnce({ data: VALID_RESPONSE });
+            const agent = new LicenseAgent({ ...BASE_CONFIG, retry: { baseDelay: 100, jitter: 0 } });
+
+            const promise = agent.validate();
+            await jest.advanceTimersByTimeAsync(100);
+            const result = await promise;
+
+            expect(result.isValid).toBe(true);
+            expect(result.isOffline).toBeUndefined();
+            expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(2);
+        });
+
+        it('should shorten the request timeout to fit the deadline', async () => {
+            mockedAxiosInstance.post.mockResolvedValue({ data: VALID_RESPONSE });
+
+            await new LicenseAgent({ ...BASE_CONFIG, retry: { deadline: 200 } }).validate();
+
+            expect(mockedAxiosInstance.post).toHaveBeenCalledWith('/licenses/validate', expect.any(Object), {
+                timeout: 200,
+            });
+        });
+
+        it('should reject invalid retry options', () => {
+            expect(() => new LicenseAgent({ ...BASE_CONFIG, retry: { maxAttempts: 0 } })).toThrow(InvalidConfigError);
+            expect(() => new LicenseAgent({ ...BASE_CONFIG, retry: { baseDelay: 10, maxDelay: 1 } })).toThrow(
+                InvalidConfigError
+            );
+            expect(() => new LicenseAgent({ ...BASE_CONFIG, retry: { deadline: 0 } })).toThrow(InvalidConfigError);
+        });
+    });
+});
@@ -0,0 +1,260 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import {
+    LicenseAgent,
+    LicenseAgentConfig,
+    MemoryCacheStore,
+    InvalidConfigError,
+    SignatureVerificationError,
+    canonicalize,
+    verifyOfflineLicense,
+} from '../src/index';
+import { ManualClock } from '../src/testing';
+import type { OfflineLicensePayload, ValidationApiResponse } from '../src/types';
+
+jest.mock('axios');
+
+const mockedAxiosInstance = {
+    post: jest.fn(),
+};
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const ed25519 = crypto.generateKeyPairSync('ed25519');
+const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const signResponse = (response: ValidationApiResponse, keys = ed25519): ValidationApiResponse => {
+    const algorithm = keys === ed25519 ? null : 'sha256';
+    const signature = crypto.sign(algorithm, Buffer.from(canonicalize(response)), keys.privateKey).toString('base64');
+    return { ...response, signature };
+};
+
+const createOfflineToken = (payload: OfflineLicensePayload, privateKey = ed25519.privateKey): string => {
+    const json = JSON.stringify(payload);
+    const signature = crypto.sign(null, Buffer.from(json), privateKey);
+    return `${Buffer.from(json).toString('base64url')}.${signature.toString('base64url')}`;
+};
+
+const VALID_RESPONSE: ValidationApiResponse = {
+    is_valid: true,
+    reason: 'valid',
+    status: 'active',
+    expires_at: new Date(Date.now() + 100000).toISOString(),
+    allowed_data: { features: ['all'], seats: 5 },
+    license_key: 'LIC-123',
+    product_name: 'TestProduct',
+    issued_at: new Date().toISOString(),
+};
+
+const BASE_CONFIG: LicenseAgentConfig = {
+    serverUrl: 'http://localhost:8080',
+    apiKey: 'prod_testprefix_testsecret',
+    licenseKey: 'LIC-123',
+    productName: 'TestProduct',
+    fingerprint: false,
+    cacheTTL: 1000,
+    gracePeriod: 5000,
+    publicKey: ed25519.publicKey.export({ type: 'spki', format: 'pem' }),
+};
+
+describe('Signature verification', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockedAxios.create.mockReturnValue(mockedAxiosInstance as any);
+    });
+
+    it('should reject an unsupported or malformed public key', () => {
+        expect(() => new LicenseAgent({ ...BASE_CONFIG, publicKey: 'not a key' })).toThrow(InvalidConfigError);
+        const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+        expect(() => new LicenseAgent({ ...BASE_CONFIG, publicKey: ec.publicKey })).toThrow(InvalidConfigError);
+    });
+
+    it('should accept a response with a valid Ed25519 signature', async () => {
+        mockedAxiosInstance.post.mockResolvedValue({ data: signResponse(VALID_RESPONSE) });
+
+        const result = await new LicenseAgent(BASE_CONFIG).validate();
+
+        expect(result.isValid).toBe(true);
+        expect(result.allowedData).toEqual(VALID_RESPONSE.allowed_data);
+    });
+
+    it('should accept a response with a valid RSA signature', async () => {
+        mockedAxiosInstance.post.mockResolvedValue({ data: signResponse(VALID_RESPONSE, rsa) });
+
+        const result = await new LicenseAgent({ ...BASE_CONFIG, publicKey: rsa.publicKey }).validate();
+
+        expect(result.isValid).toBe(true);
+    });
+
+    it.each([
+        ['unsigned', VALID_RESPONSE],
+        ['tampered', { ...signResponse({ ...VALID_RESPONSE, is_valid: false }), is_valid: true }],
+        ['signed with another key', signResponse(VALID_RESPONSE, rsa)],
+        ['signed for another license', signResponse({ ...VALID_RESPONSE, license_key: 'LIC-999' })],
+        ['signed for another product', signResponse({ ...VALID_RESPONSE, product_name: 'OtherProduct' })],
+        ['signed without an issue time', signResponse({ ...VALID_RESPONSE, issued_at: null })],
+    ])('should reject an %s response without caching it', async (_, data) => {
+        mockedAxiosInstance.post.mockResolvedValue({ data });
+        const cacheStore = new MemoryCacheStore();
+
+        const result = await new LicenseAgent({ ...BASE_CONFIG, cacheStore }).validate();
+
+        expect(result.isValid).toBe(false);
+        expect(result.reason).toBe('invalid_signature');
+        expect(result.error).toBeInstanceOf(SignatureVerificationError);
+        await expect(cacheStore.get('TestProduct:LIC-123')).resolves.toBeNull();
+    });
+
+    it('should ignore edits to the cached result', async () => {
+        const cacheStore = new MemoryCacheStore();
+        mockedAxiosInstance.post.mockResolvedValue({ data: signResponse({ ...VALID_RESPONSE, allowed_data: null }) });
+        const agent = new LicenseAgent({ ...BASE_CONFIG, cacheStore });
+        await agent.validate();
+
+        const entry = (await cacheStore.get('TestProduct:LIC-123'))!;
+        await cacheStore.set('TestProduct:LIC-123', { ...entry, result: { ...entry.result, allowedData: 'all' } });
+
+        const result = await agent.validate();
+
+        expect(result.allowedData).toBeNull();
+        expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should discard a cached response whose signature was tampered with', async () => {
+        const cacheStore = new MemoryCacheStore();
+        mockedAxiosInstance.post.mockResolvedValue({ data: signResponse(VALID_RESPONSE) });
+        const agent = new LicenseAgent({ ...BASE_CONFIG, cacheStore });
+        await agent.validate();
+
+        const entry = (await cacheStore.get('TestProduct:LIC-123'))!;
+        await cacheStore.set('TestProduct:LIC-123', { ...entry, response: { ...entry.response!, status: 'vip' } });
+
+        await agent.validate();
+
+        expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not let edits to the cache timestamp extend the grace period', async () => {
+        const clock = new ManualClock(Date.now());
+        const cacheStore = new MemoryCacheStore();
+        mockedAxiosInstance.post.mockResolvedValueOnce({
+            data: signResponse({ ...VALID_RESPONSE, issued_at: new Date(clock.now()).toISOString() }),
+        });
+        const agent = new LicenseAgent({ ...BASE_CONFIG, cacheStore, clock });
+        await agent.validate();
+
+        const entry = (await cacheStore.get('TestProduct:LIC-123'))!;
+        await cacheStore.set('TestProduct:LIC-123', { ...entry, timestamp: entry.timestamp + 60000 });
+        clock.advance(10000);
+        mockedAxiosInstance.post.mockRejectedValue(new Error('Network Failure'));
+
+        const result = await new LicenseAgent({ ...BASE_CONFIG, cacheStore, clock }).validate();
+
+        expect(result.isValid).toBe(false);
+        expect(result.isGracePeriod).toBeFalsy();
+    });
+
+    it('should keep the cache TTL and grace period when the local clock is ahead of the server', async () => {
+        const serverTime = Date.now();
+        const clock = new ManualClock(serverTime + 60 * 60 * 1000);
+        mockedAxiosInstance.post.mockResolvedValue({
+            data: signResponse({ ...VALID_RESPONSE, issued_at: new Date(serverTime).toISOString() }),
+            headers: { date: new Date(serverTime).toUTCString() },
+        });
+        const agent = new LicenseAgent({ ...BASE_CONFIG, clock });
+
+        await agent.validate();
+        clock.advance(500);
+        await agent.validate();
+        expect(mockedAxiosInstance.post).toHaveBeenCalledTimes(1);
+
+        clock.advance(1000);
+        mockedAxiosInstance.post.mockRejectedValue(new Error('Network Failure'));
+        const result = await agent.validate();
+
+        expect(result).toMatchObject({ isValid: true, isGracePeriod: true });
+    });
+
+    describe('offline licenses', () => {
+        const PAYLOAD: OfflineLicensePayload = {
+            license_key: 'LIC-123',
+            product_name: 'TestProduct',
+            status: 'active',
+            expires_at: new Date(Date.now() + 100000).toISOString(),
+            allowed_data: { features: ['all'] },
+        };
+        const options = { publicKey: ed25519.publicKey, productName: 'TestProduct', licenseKey: 'LIC-123' };
+
+        it('should validate a correctly signed token', () => {
+            const result = verifyOfflineLicense(createOfflineToken(PAYLOAD), options);
+
+            expect(result.isValid).toBe(true);
+            expect(result.isOffline).toBe(true);
+            expect(result.status).toBe('active');
+            expect(result.expiresAt).toBeInstanceOf(Date);
+            expect(result.allowedData).toEqual({ features: ['all'] });
+        });
+
+        it('should reject a token with a bad signature', () => {
+            const other = crypto.generateKeyPairSync('ed25519');
+
+            const result = verifyOfflineLicense(createOfflineToken(PAYLOAD, other.privateKey), options);
+
+            expect(result.isValid).toBe(false);
+            expect(result.reason).toBe('invalid_signature');
+            expect(result.error).toBeInstanceOf(SignatureVerificationError);
+        });
+
+        it('should reject malformed, expired or mismatched tokens', () => {
+            expect(verifyOfflineLicense('garbage', options).reason).toBe('invalid_signature');
+            expect(
+                verifyOfflineLicense(
+                    createOfflineToken({ ...PAYLOAD, expires_at: new Date(Date.now() - 1000).toISOString() }),
+                    options
+                ).reason
+            ).toBe('expired');
+            expect(verifyOfflineLicense(createOfflineToken({ ...PAYLOAD, product_name: 'Other' }), options).reason).toBe(
+                'product_mismatch'
+            );
+            expect(verifyOfflineLicense(createOfflineToken({ ...PAYLOAD, license_key: 'LIC-999' }), options).reason).toBe(
+                'license_mismatch'
+            );
+        });
+
+        it('should validate through the agent using the configured key', () => {
+            const agent = new LicenseAgent(BASE_CONFIG);
+
+            expect(agent.validateOffline(createOfflineToken(PAYLOAD)).isValid).toBe(true);
+            expect(() => new LicenseAgent({ ...BASE_CONFIG, publicKey: undefined }).validateOffline('x')).toThrow(
+                InvalidConfigError
+            );
+        });
+
+        it('should make entitlements of an offline token available', () => {
+            const agent = new LicenseAgent(BASE_CONFIG);
+            expect(agent.hasFeature('all')).toBe(false);
+
+            agent.validateOffline(
+                createOfflineToken({ ...PAYLOAD, allowed_data: { features: ['all'], limits: { seats: 3 } } })
+            );
+
+            expect(agent.hasFeature('all')).toBe(true);
+            expect(agent.getLimit('seats')).toBe(3);
+            expect(() => agent.checkFeatureOrThrow('all')).not.toThrow();
+
+            agent.validateOffline(createOfflineToken({ ...PAYLOAD, license_key: 'LIC-999' }));
+            expect(agent.getEntitlements()).toBeNull();
+        });
+
+        it('should not report a recovery after an offline token', async () => {
+            const agent = new LicenseAgent(BASE_CONFIG);
+            const listener = jest.fn();
+            (['valid', 'offline', 'recovered'] as const).forEach((event) => agent.on(event, () => listener(event)));
+            mockedAxiosInstance.post.mockResolvedValue({ data: signResponse(VALID_RESPONSE) });
+
+            agent.validateOffline(createOfflineToken(PAYLOAD));
+            await agent.validate();
+
+            expect(listener.mock.calls).toEqual([['valid']]);
+        });
+    });
+});
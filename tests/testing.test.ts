@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import { BadRequestError, FetchTransport, LicenseAgent, LicenseAgentConfig, ServerError } from '../src/index';
+import { ManualClock, MockLicenseServer } from '../src/testing';
+
+const MINUTE = 60 * 1000;
+
+describe('MockLicenseServer', () => {
+    let server: MockLicenseServer;
+    let clock: ManualClock;
+    let agents: LicenseAgent[];
+
+    const createAgent = (overrides: Partial<LicenseAgentConfig> = {}) => {
+        const agent = new LicenseAgent(
+            server.agentConfig({ cacheTTL: MINUTE, gracePeriod: 10 * MINUTE, ...overrides })
+        );
+        agents.push(agent);
+        return agent;
+    };
+
+    beforeEach(async () => {
+        clock = new ManualClock(new Date('2030-01-01T00:00:00Z'));
+        server = new MockLicenseServer({ clock });
+        agents = [];
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await Promise.all(agents.map((agent) => agent.stop()));
+        await server.stop();
+    });
+
+    it('should answer validation requests for a valid license', async () => {
+        server.setScenario('valid', { allowedData: { features: ['export'] } });
+
+        const result = await createAgent().validate();
+
+        expect(result).toMatchObject({
+            isValid: true,
+            status: 'active',
+            reason: 'valid',
+            allowedData: { features: ['export'] },
+            expiresAt: new Date('2030-01-31T00:00:00Z'),
+            lastCheckedAt: new Date('2030-01-01T00:00:00Z'),
+        });
+        expect(server.requests).toEqual([
+            expect.objectContaining({
+                path: '/licenses/validate',
+                body: { license_key: 'TEST-LICENSE-KEY', product_name: 'TestProduct' },
+            }),
+        ]);
+    });
+
+    it.each([
+        ['expired', 'expired'],
+        ['revoked', 'revoked'],
+        ['not_found', null],
+    ] as const)('should answer the %s scenario with an invalid result', async (scenario, status) => {
+        server.setScenario(scenario);
+
+        const result = await createAgent().validate();
+
+        expect(result).toMatchObject({ isValid: false, reason: scenario, status });
+    });
+
+    it('should apply per-license scenarios', async () => {
+        server.setScenario('revoked', {}, 'REVOKED-KEY');
+
+        expect((await createAgent().validate()).isValid).toBe(true);
+        expect((await createAgent({ licenseKey: 'REVOKED-KEY' }).validate()).reason).toBe('revoked');
+    });
+
+    it('should reject unknown API keys with 401', async () => {
+        const result = await createAgent({ apiKey: 'wrong' }).validate();
+
+        expect(result).toMatchObject({ isValid: false, reason: 'authentication_failed' });
+    });
+
+    it('should walk an agent through cache, grace period and expiry as the clock moves', async () => {
+        const agent = createAgent();
+        expect((await agent.validate()).reason).toBe('valid');
+
+        server.setScenario('server_error', { statusCode: 503 });
+        clock.advance(MINUTE / 2);
+        expect((await agent.validate()).reason).toBe('valid');
+        expect(server.requests).toHaveLength(1);
+
+        clock.advance(MINUTE);
+        const grace = await agent.validate();
+        expect(grace).toMatchObject({ isValid: true, isGracePeriod: true, reason: 'grace_period' });
+        expect(grace.error).toBeInstanceOf(ServerError);
+
+        clock.advance(10 * MINUTE);
+        expect(await agent.validate()).toMatchObject({ isValid: false, isOffline: true, isGracePeriod: false });
+
+        server.setScenario('valid');
+        expect(await agent.validate()).toMatchObject({ isValid: true, reason: 'valid' });
+    });
+
+    it('should drop connections', async () => {
+        server.setScenario('drop_connection');
+
+        const result = await createAgent().validate();
+
+        expect(result).toMatchObject({ isValid: false, isOffline: true, reason: 'network_error_no_cache' });
+    });
+
+    it('should answer slowly enough to hit the request timeout', async () => {
+        server.setScenario('valid', { delay: 300 });
+
+        const result = await createAgent({ requestTimeout: 50 }).validate();
+
+        expect(result).toMatchObject({ isValid: false, isOffline: true, reason: 'network_error_no_cache' });
+    });
+
+    it('should track activations and enforce the seat limit', async () => {
+        await server.stop();
+        server = new MockLicenseServer({ clock, seats: 1 });
+        await server.start();
+
+        const first = await createAgent({ deactivateOnExit: false }).activate();
+        const second = await createAgent({ deactivateOnExit: false }).activate();
+
+        expect(first).toMatchObject({ isValid: true, activationId: 'act_1' });
+        expect(second).toMatchObject({ isValid: false, reason: 'seat_limit_reached' });
+        expect(server.getActivations('TEST-LICENSE-KEY')).toEqual(['act_1']);
+
+        await agents[0].deactivate();
+        expect(server.getActivations('TEST-LICENSE-KEY')).toEqual([]);
+    });
+
+    it('should count replayed usage events once', async () => {
+        const transport = new FetchTransport({ serverUrl: server.url, apiKey: 'test_api_key', requestTimeout: 1000 });
+        const event = { event_id: 'evt_1', metric: 'documents', quantity: 2, attributes: {}, recorded_at: '' };
+        const body = { license_key: 'TEST-LICENSE-KEY', product_name: 'TestProduct', events: [event] };
+
+        await transport.post('/licenses/usage', body);
+        const replay = await transport.post('/licenses/usage', body);
+
+        expect(replay.data).toEqual({ accepted: 0, duplicates: 1 });
+        expect(server.getUsage('TEST-LICENSE-KEY')).toEqual([event]);
+    });
+
+    it('should answer 400 to bodies that are not JSON objects', async () => {
+        const transport = new FetchTransport({ serverUrl: server.url, apiKey: 'test_api_key', requestTimeout: 1000 });
+
+        await expect(transport.post('/licenses/validate', null)).rejects.toBeInstanceOf(BadRequestError);
+        await expect(transport.post('/licenses/heartbeat', ['TEST-LICENSE-KEY'])).rejects.toMatchObject({
+            statusCode: 400,
+        });
+        expect((await createAgent().validate()).isValid).toBe(true);
+    });
+
+    it('should sign responses when given a private key', async () => {
+        const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+        await server.stop();
+        server = new MockLicenseServer({ clock, privateKey });
+        await server.start();
+
+        const result = await createAgent({ publicKey }).validate();
+
+        expect(result).toMatchObject({ isValid: true, reason: 'valid' });
+    });
+});
@@ -0,0 +1,255 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+    AxiosTransport,
+    FetchTransport,
+    ScriptedTransport,
+    LicenseAgent,
+    AuthenticationError,
+    BadRequestError,
+    NetworkError,
+    RateLimitedError,
+    ServerError,
+} from '../src/index';
+import type { Transport, TransportOptions } from '../src/types';
+
+interface ReceivedRequest {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: unknown;
+}
+
+type Route = (res: http.ServerResponse) => void;
+
+const json =
+    (status: number, body: unknown, headers: Record<string, string> = {}): Route =>
+    (res) => {
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(body));
+    };
+
+const ROUTES: Record<string, Route> = {
+    '/api/v1/licenses/validate': json(
+        200,
+        { is_valid: true, reason: 'valid', status: 'active' },
+        { 'X-Request-Id': 'r1' }
+    ),
+    '/api/v1/unauthorized': json(401, { error: 'invalid_api_key' }),
+    '/api/v1/rate-limited': json(429, { error: 'slow_down' }, { 'Retry-After': '3' }),
+    '/api/v1/unavailable': json(503, { error: 'maintenance' }, { 'Retry-After': '5' }),
+    '/api/v1/conflict': json(409, { error: 'seat_limit_reached' }),
+    '/api/v1/slow': (res) => setTimeout(() => json(200, {})(res), 500),
+};
+
+describe('transports', () => {
+    let server: http.Server;
+    let serverUrl: string;
+    let received: ReceivedRequest[];
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let data = '';
+            req.on('data', (chunk) => (data += chunk));
+            req.on('end', () => {
+                received.push({ method: req.method, url: req.url, headers: req.headers, body: JSON.parse(data) });
+                const route = ROUTES[req.url ?? ''] ?? json(404, { error: 'not_found' });
+                route(res);
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        received = [];
+    });
+
+    describe.each<[string, (options: TransportOptions) => Transport]>([
+        ['AxiosTransport', (options) => new AxiosTransport(options)],
+        ['FetchTransport', (options) => new FetchTransport(options)],
+    ])('%s', (_name, createTransport) => {
+        const create = (requestTimeout = 2000) =>
+            createTransport({ serverUrl, apiKey: 'prod_testprefix_testsecret', requestTimeout });
+
+        it('should post JSON with the API key and return the parsed response', async () => {
+            const response = await create().post('/licenses/validate', { license_key: 'key' });
+
+            expect(response.status).toBe(200);
+            expect(response.data).toEqual({ is_valid: true, reason: 'valid', status: 'active' });
+            expect(response.headers['x-request-id']).toBe('r1');
+            expect(received).toHaveLength(1);
+            expect(received[0].method).toBe('POST');
+            expect(received[0].headers['x-api-key']).toBe('prod_testprefix_testsecret');
+            expect(received[0].headers['content-type']).toContain('application/json');
+            expect(received[0].body).toEqual({ license_key: 'key' });
+        });
+
+        it('should map 401 to AuthenticationError', async () => {
+            const error = await create()
+                .post('/unauthorized', {})
+                .catch((e) => e);
+
+            expect(error).toBeInstanceOf(AuthenticationError);
+            expect(error.statusCode).toBe(401);
+            expect(error.responseBody).toEqual({ error: 'invalid_api_key' });
+        });
+
+        it('should map 429 and 503 with their Retry-After delay', async () => {
+            const transport = create();
+
+            const rateLimited = await transport.post('/rate-limited', {}).catch((e) => e);
+            const unavailable = await transport.post('/unavailable', {}).catch((e) => e);
+
+            expect(rateLimited).toBeInstanceOf(RateLimitedError);
+            expect(rateLimited.retryAfter).toBe(3000);
+            expect(unavailable).toBeInstanceOf(ServerError);
+            expect(unavailable.statusCode).toBe(503);
+            expect(unavailable.retryAfter).toBe(5000);
+        });
+
+        it('should map other 4xx to BadRequestError', async () => {
+            const error = await create()
+                .post('/conflict', {})
+                .catch((e) => e);
+
+            expect(error).toBeInstanceOf(BadRequestError);
+            expect(error.statusCode).toBe(409);
+        });
+
+        it('should fail with NetworkError after requestTimeout', async () => {
+            const error = await create(50)
+                .post('/slow', {})
+                .catch((e) => e);
+
+            expect(error).toBeInstanceOf(NetworkError);
+        });
+
+        it('should let the per-request timeout override requestTimeout', async () => {
+            const error = await create(5000)
+                .post('/slow', {}, { timeout: 50 })
+                .catch((e) => e);
+
+            expect(error).toBeInstanceOf(NetworkError);
+        });
+
+        it('should fail with NetworkError when the server is unreachable', async () => {
+            const transport = createTransport({ serverUrl: 'http://127.0.0.1:1', apiKey: 'key', requestTimeout: 2000 });
+
+            await expect(transport.post('/licenses/validate', {})).rejects.toBeInstanceOf(NetworkError);
+        });
+    });
+});
+
+describe('ScriptedTransport', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should use queued replies once each and then the default reply', async () => {
+        const transport = new ScriptedTransport()
+            .reply('/licenses/validate', { data: { n: 1 } }, { data: { n: 2 } })
+            .replyAlways('/licenses/validate', { data: { n: 0 } });
+
+        const data = [];
+        for (let i = 0; i < 4; i++) {
+            data.push((await transport.post<{ n: number }>('/licenses/validate', { i })).data.n);
+        }
+
+        expect(data).toEqual([1, 2, 0, 0]);
+        expect(transport.requests.map((r) => r.body)).toEqual([{ i: 0 }, { i: 1 }, { i: 2 }, { i: 3 }]);
+    });
+
+    it('should answer 404 for paths without replies', async () => {
+        const error = await new ScriptedTransport().post('/unknown', {}).catch((e) => e);
+
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.statusCode).toBe(404);
+    });
+
+    it('should map statuses and network failures like the HTTP transports', async () => {
+        const transport = new ScriptedTransport().reply(
+            '/licenses/validate',
+            { status: 503, headers: { 'Retry-After': '2' } },
+            { networkError: true }
+        );
+
+        const unavailable = await transport.post('/licenses/validate', {}).catch((e) => e);
+        const dropped = await transport.post('/licenses/validate', {}).catch((e) => e);
+
+        expect(unavailable).toBeInstanceOf(ServerError);
+        expect(unavailable.retryAfter).toBe(2000);
+        expect(dropped).toBeInstanceOf(NetworkError);
+    });
+
+    it('should fail a reply delayed past the timeout with NetworkError', async () => {
+        jest.useFakeTimers();
+        const transport = new ScriptedTransport({ requestTimeout: 1000 }).replyAlways('/licenses/validate', {
+            data: {},
+            delay: 5000,
+        });
+
+        const pending = transport.post('/licenses/validate', {}).catch((e) => e);
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(await pending).toBeInstanceOf(NetworkError);
+    });
+
+    it('should drive a LicenseAgent without axios', async () => {
+        const transport = new ScriptedTransport().reply(
+            '/licenses/validate',
+            (request) => ({ data: { is_valid: true, reason: 'valid', status: 'active', echo: request.body } }),
+            { status: 500 }
+        );
+        const agent = new LicenseAgent({
+            serverUrl: 'http://localhost:8080',
+            apiKey: 'prod_testprefix_testsecret',
+            licenseKey: 'LICENSE-KEY',
+            productName: 'TestProduct',
+            fingerprint: false,
+            transport,
+        });
+
+        const first = await agent.validate();
+        const second = await agent.forceValidate();
+
+        expect(first.isValid).toBe(true);
+        expect(transport.requests[0].body).toEqual({
+            license_key: 'LICENSE-KEY',
+            product_name: 'TestProduct',
+        });
+        expect(second).toMatchObject({ isValid: false, isOffline: true, reason: 'network_error_no_cache' });
+    });
+
+    it('should not load axios unless an AxiosTransport sends a request', async () => {
+        const loaded = jest.fn();
+        let isolated!: typeof import('../src/index');
+        jest.isolateModules(() => {
+            jest.doMock('axios', () => {
+                loaded();
+                return jest.requireActual('axios');
+            });
+            isolated = require('../src/index');
+        });
+        const transport = new isolated.ScriptedTransport().replyAlways('/licenses/validate', {
+            data: { is_valid: true, reason: 'valid', status: 'active' },
+        });
+
+        await new isolated.LicenseAgent({
+            serverUrl: 'http://localhost:8080',
+            apiKey: 'prod_testprefix_testsecret',
+            licenseKey: 'LICENSE-KEY',
+            productName: 'TestProduct',
+            fingerprint: false,
+            transport,
+        }).validate();
+
+        expect(loaded).not.toHaveBeenCalled();
+        jest.dontMock('axios');
+    });
+});
@@ -0,0 +1,240 @@
+import {
+    LicenseAgent,
+    LicenseAgentConfig,
+    InvalidUsageEventError,
+    MemoryUsageStore,
+    ScriptedTransport,
+    UsageEvent,
+} from '../src/index';
+import { ManualClock, MockLicenseServer } from '../src/testing';
+
+const START = new Date('2030-01-01T00:00:00Z').getTime();
+const USAGE_PATH = '/licenses/usage';
+
+describe('usage metering', () => {
+    let clock: ManualClock;
+    let transport: ScriptedTransport;
+
+    const createAgent = (config: Partial<LicenseAgentConfig> = {}) =>
+        new LicenseAgent({
+            serverUrl: 'http://localhost:8080',
+            apiKey: 'prod_testprefix_testsecret',
+            licenseKey: 'LIC-123',
+            productName: 'TestProduct',
+            fingerprint: false,
+            clock,
+            transport,
+            ...config,
+        });
+
+    const sentIds = (index: number) =>
+        transport.requests[index].body.events.map((event: { event_id: string }) => event.event_id);
+
+    beforeEach(() => {
+        clock = new ManualClock(START);
+        transport = new ScriptedTransport();
+    });
+
+    it('should send buffered events in batches', async () => {
+        transport.replyAlways(USAGE_PATH, { data: { accepted: 2 } });
+        const agent = createAgent({ usage: { batchSize: 2 } });
+
+        await agent.recordUsage('api_calls', 3, { endpoint: '/export' });
+        clock.advance(1000);
+        await agent.recordUsage('documents');
+        await agent.recordUsage('documents', 5);
+        const result = await agent.flushUsage();
+
+        expect(result).toEqual({ sent: 3, pending: 0, error: null });
+        expect(transport.requests).toHaveLength(2);
+        expect(transport.requests[0]).toMatchObject({
+            path: USAGE_PATH,
+            body: {
+                license_key: 'LIC-123',
+                product_name: 'TestProduct',
+                events: [
+                    {
+                        metric: 'api_calls',
+                        quantity: 3,
+                        attributes: { endpoint: '/export' },
+                        recorded_at: '2030-01-01T00:00:00.000Z',
+                    },
+                    { metric: 'documents', quantity: 1, attributes: {}, recorded_at: '2030-01-01T00:00:01.000Z' },
+                ],
+            },
+        });
+        expect(transport.requests[1].body.events).toHaveLength(1);
+    });
+
+    it('should flush a full batch without waiting for the interval', async () => {
+        transport.replyAlways(USAGE_PATH, { data: {} });
+        const agent = createAgent({ usage: { batchSize: 2, flushInterval: 60 * 60 * 1000 } });
+
+        await agent.recordUsage('api_calls');
+        expect(transport.requests).toHaveLength(0);
+        await agent.recordUsage('api_calls');
+        await agent.flushUsage();
+
+        expect(transport.requests).toHaveLength(1);
+        expect(transport.requests[0].body.events).toHaveLength(2);
+    });
+
+    it('should flush on the configured interval', async () => {
+        transport.replyAlways(USAGE_PATH, { data: {} });
+        const agent = createAgent({ usage: { flushInterval: 10 } });
+
+        await agent.recordUsage('api_calls');
+        await new Promise((resolve) => setTimeout(resolve, 30));
+
+        expect(transport.requests).toHaveLength(1);
+        await agent.stop();
+    });
+
+    it('should keep events while offline and replay them with the same ids', async () => {
+        transport.reply(USAGE_PATH, { networkError: true }).replyAlways(USAGE_PATH, { data: {} });
+        const agent = createAgent();
+
+        await agent.recordUsage('api_calls');
+        await agent.recordUsage('api_calls');
+        expect(await agent.flushUsage()).toMatchObject({ sent: 0, pending: 2, error: expect.any(Error) });
+        expect(await agent.flushUsage()).toEqual({ sent: 2, pending: 0, error: null });
+
+        expect(sentIds(1)).toEqual(sentIds(0));
+        expect(await agent.flushUsage()).toEqual({ sent: 0, pending: 0, error: null });
+        expect(transport.requests).toHaveLength(2);
+    });
+
+    it('should persist unsent events across restarts', async () => {
+        const usageStore = new MemoryUsageStore();
+        transport.reply(USAGE_PATH, { status: 503 }).replyAlways(USAGE_PATH, { data: {} });
+        const offline = createAgent({ usageStore });
+        const event = await offline.recordUsage('documents', 4);
+        await offline.flushUsage();
+
+        const restarted = createAgent({ usageStore });
+        const result = await restarted.flushUsage();
+
+        expect(result).toEqual({ sent: 1, pending: 0, error: null });
+        expect(sentIds(1)).toEqual([event.id]);
+        expect(await usageStore.get('TestProduct:LIC-123')).toBeNull();
+    });
+
+    it('should save the queue per flush attempt instead of per event', async () => {
+        const usageStore = new MemoryUsageStore();
+        const save = jest.spyOn(usageStore, 'set');
+        transport.replyAlways(USAGE_PATH, { networkError: true });
+        const agent = createAgent({ usageStore });
+
+        for (let i = 0; i < 50; i++) {
+            await agent.recordUsage('api_calls');
+        }
+        expect(save).not.toHaveBeenCalled();
+
+        await agent.flushUsage();
+        await agent.flushUsage();
+        await agent.stop();
+
+        expect(save).toHaveBeenCalledTimes(1);
+        expect(await usageStore.get('TestProduct:LIC-123')).toHaveLength(50);
+    });
+
+    it('should replay events saved by a previous process without new usage', async () => {
+        const usageStore = new MemoryUsageStore();
+        transport.reply(USAGE_PATH, { networkError: true }).replyAlways(USAGE_PATH, { data: {} });
+        transport.replyAlways('/licenses/validate', { data: { is_valid: true, reason: 'valid', status: 'active' } });
+        const offline = createAgent({ usageStore });
+        const event = await offline.recordUsage('documents');
+        await offline.stop();
+
+        const restarted = createAgent({ usageStore });
+        restarted.start();
+        await restarted.validate();
+        await restarted.stop();
+
+        const usageRequests = transport.requests.filter((request) => request.path === USAGE_PATH);
+        expect(usageRequests.at(-1)?.body.events.map((sent: { event_id: string }) => sent.event_id)).toEqual([
+            event.id,
+        ]);
+        expect(await usageStore.get('TestProduct:LIC-123')).toBeNull();
+    });
+
+    it('should drop the oldest events beyond maxQueueSize', async () => {
+        const agent = createAgent({ usage: { batchSize: 2, maxQueueSize: 2 } });
+        const dropped: UsageEvent[][] = [];
+        agent.on('usageDropped', (events) => dropped.push(events));
+        transport.replyAlways(USAGE_PATH, { networkError: true });
+
+        const first = await agent.recordUsage('api_calls', 1);
+        await agent.recordUsage('api_calls', 2);
+        await agent.flushUsage();
+        await agent.recordUsage('api_calls', 3);
+
+        expect(dropped).toEqual([[first]]);
+        expect(await agent.flushUsage()).toMatchObject({ pending: 2 });
+    });
+
+    it('should drop batches the server rejects as malformed but keep them on authentication failures', async () => {
+        transport
+            .reply(USAGE_PATH, { status: 401 }, { status: 422, data: { error: 'unknown_metric' } })
+            .replyAlways(USAGE_PATH, { data: {} });
+        const agent = createAgent();
+        const dropped = jest.fn();
+        agent.on('usageDropped', dropped);
+
+        await agent.recordUsage('api_calls');
+        expect(await agent.flushUsage()).toMatchObject({ sent: 0, pending: 1 });
+        expect(await agent.flushUsage()).toMatchObject({ sent: 0, pending: 0 });
+
+        expect(dropped).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid events', async () => {
+        const agent = createAgent();
+
+        await expect(agent.recordUsage('', 1)).rejects.toThrow(InvalidUsageEventError);
+        await expect(agent.recordUsage('api_calls', -1)).rejects.toThrow(InvalidUsageEventError);
+        await expect(agent.recordUsage('api_calls', NaN)).rejects.toThrow(
+            'Usage quantity must be a non-negative number'
+        );
+    });
+
+    it('should send remaining events on stop()', async () => {
+        transport.replyAlways(USAGE_PATH, { data: {} });
+        const agent = createAgent();
+
+        await agent.recordUsage('api_calls');
+        await agent.stop();
+
+        expect(transport.requests).toHaveLength(1);
+    });
+
+    describe('with the mock license server', () => {
+        let server: MockLicenseServer;
+
+        beforeEach(async () => {
+            server = new MockLicenseServer();
+            await server.start();
+        });
+
+        afterEach(async () => {
+            await server.stop();
+        });
+
+        it('should deliver events queued while the server was unreachable', async () => {
+            const usageStore = new MemoryUsageStore();
+            server.setScenario('drop_connection');
+            const agent = new LicenseAgent(server.agentConfig({ usageStore }));
+
+            await agent.recordUsage('documents', 2);
+            await agent.flushUsage();
+            server.setScenario('valid');
+            await agent.flushUsage();
+            await new LicenseAgent(server.agentConfig({ usageStore })).flushUsage();
+
+            expect(server.getUsage('TEST-LICENSE-KEY')).toEqual([
+                expect.objectContaining({ metric: 'documents', quantity: 2 }),
+            ]);
+            expect(server.requests.at(-1)?.headers['x-api-key']).toBe('test_api_key');
+        });
+    });
+});